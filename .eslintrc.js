@@ -7,7 +7,7 @@ module.exports = {
     root: true,
     parser: "@typescript-eslint/parser",
     parserOptions: {
-        project: "tsconfig.json",
+        project: ["tsconfig.json", "test/tsconfig.json"],
         tsconfigRootDir: ".",
     },
     plugins: [
@@ -0,0 +1,91 @@
+"use strict";
+
+export type AggregationMethod =
+  "count" | "distinctCount" | "sum" | "mean" | "max";
+
+// One data row, already assigned to a region by its admin code or coordinates
+export interface RegionRecord {
+  region: string; // Normalised admin code
+  id?: string; // Obs ID, counted by "distinctCount"
+  value?: number; // Value field, aggregated by "sum", "mean" and "max"
+}
+
+export interface RegionStats {
+  rowCount: number;
+  ids: Set<string>;
+  valueCount: number; // Rows with a numeric value
+  sum: number;
+  max: number;
+}
+
+// Gather every statistic at once, so switching the method or building a tooltip needs no second pass
+export function aggregateByRegion(
+  records: RegionRecord[]
+): Map<string, RegionStats> {
+  const statsByRegion = new Map<string, RegionStats>();
+  records.forEach(({ region, id, value }) => {
+    let stats = statsByRegion.get(region);
+    if (!stats) {
+      stats = {
+        rowCount: 0,
+        ids: new Set(),
+        valueCount: 0,
+        sum: 0,
+        max: -Infinity,
+      };
+      statsByRegion.set(region, stats);
+    }
+    stats.rowCount++;
+    if (id !== undefined && id !== "") {
+      stats.ids.add(id);
+    }
+    if (value !== undefined && !isNaN(value)) {
+      stats.valueCount++;
+      stats.sum += value;
+      stats.max = Math.max(stats.max, value);
+    }
+  });
+  return statsByRegion;
+}
+
+// Methods over the Value field have no result for a region without values
+export function getAggregateValue(
+  stats: RegionStats,
+  method: AggregationMethod
+): number | undefined {
+  switch (method) {
+    case "count":
+      return stats.rowCount;
+    case "distinctCount":
+      return stats.ids.size;
+    case "sum":
+      return stats.valueCount > 0 ? stats.sum : undefined;
+    case "mean":
+      return stats.valueCount > 0 ? stats.sum / stats.valueCount : undefined;
+    default:
+      return stats.valueCount > 0 ? stats.max : undefined;
+  }
+}
+
+export function usesValueField(method: AggregationMethod): boolean {
+  return method === "sum" || method === "mean" || method === "max";
+}
+
+// Name of the aggregated value in the legend and tooltips; a sum keeps the field's own name
+export function getAggregationLabel(
+  method: AggregationMethod,
+  valueFieldName: string
+): string {
+  switch (method) {
+    case "count":
+      return "Row count";
+    case "distinctCount":
+      return "Distinct Obs IDs";
+    case "mean":
+      return `Mean of ${valueFieldName}`;
+    case "max":
+      return `Max of ${valueFieldName}`;
+    default:
+      return valueFieldName;
+  }
+}
@@ -0,0 +1,28 @@
+"use strict";
+
+export type BubbleScaling = "sqrt" | "linear";
+
+export type BubblePlacement = "points" | "centroids";
+
+export interface BubbleSizeOptions {
+  scaling: BubbleScaling;
+  minRadius: number; // Pixels, for values at or below zero
+  maxRadius: number; // Pixels, for the largest value
+}
+
+// Square-root scaling makes the bubble area proportional to the value, which readers
+// compare more accurately than radii; linear scaling exaggerates the largest values
+export function getBubbleRadius(
+  value: number,
+  maxValue: number,
+  options: BubbleSizeOptions
+): number {
+  const minRadius = Math.max(0, options.minRadius);
+  const maxRadius = Math.max(minRadius, options.maxRadius);
+  if (!(maxValue > 0) || !(value > 0)) {
+    return minRadius;
+  }
+  const ratio = Math.min(1, value / maxValue);
+  const scaled = options.scaling === "linear" ? ratio : Math.sqrt(ratio);
+  return minRadius + (maxRadius - minRadius) * scaled;
+}
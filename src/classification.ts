@@ -0,0 +1,166 @@
+"use strict";
+
+import { deviation, mean, quantileSorted } from "d3";
+
+export type ClassificationMethod =
+  | "continuous"
+  | "quantile"
+  | "equalInterval"
+  | "jenks"
+  | "standardDeviation"
+  | "manual";
+
+// Class breaks are returned as [min, b1, ..., max]: n classes have n + 1 breaks,
+// and class i covers values in (breaks[i], breaks[i + 1]] (the first class also includes min).
+// An inner break equal to min is kept, so [min, min, ...] gives a class holding only the minimum.
+export function computeClassBreaks(
+  values: number[],
+  method: ClassificationMethod,
+  classCount: number,
+  manualBreaks: number[] = []
+): number[] {
+  const sorted = values
+    .filter((value) => isFinite(value))
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    return [];
+  }
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const count = Math.max(1, Math.min(Math.round(classCount), sorted.length));
+
+  let inner: number[];
+  switch (method) {
+    case "quantile":
+      inner = range(1, count).map((i) => quantileSorted(sorted, i / count));
+      break;
+    case "jenks":
+      inner = jenksInnerBreaks(sorted, count);
+      break;
+    case "standardDeviation":
+      inner = standardDeviationInnerBreaks(sorted, count);
+      break;
+    case "manual":
+      inner = manualBreaks;
+      break;
+    default:
+      inner = range(1, count).map((i) => min + ((max - min) * i) / count);
+  }
+
+  return [
+    min,
+    ...uniqueSorted(inner.filter((value) => value >= min && value < max)),
+    max,
+  ];
+}
+
+// Index of the class a value falls in, or -1 outside the breaks
+export function getClassIndex(value: number, breaks: number[]): number {
+  if (
+    breaks.length < 2 ||
+    value < breaks[0] ||
+    value > breaks[breaks.length - 1]
+  ) {
+    return -1;
+  }
+  for (let i = 1; i < breaks.length; i++) {
+    if (value <= breaks[i]) {
+      return i - 1;
+    }
+  }
+  return breaks.length - 2;
+}
+
+// Parse a manual break list such as "10, 50; 100"
+export function parseManualBreaks(text: string): number[] {
+  return (text || "")
+    .split(/[,;|\s]+/)
+    .map((part) => parseFloat(part))
+    .filter((value) => !isNaN(value));
+}
+
+// Breaks one standard deviation apart, centred on the mean: an even class count puts a
+// break at the mean, an odd count puts the middle class from -0.5 to +0.5 deviations
+function standardDeviationInnerBreaks(
+  sorted: number[],
+  count: number
+): number[] {
+  const average = mean(sorted);
+  const sd = deviation(sorted);
+  if (!sd) {
+    return [];
+  }
+  return range(1, count).map((i) => average + (i - count / 2) * sd);
+}
+
+// Fisher-Jenks natural breaks: minimise the within-class sum of squared deviations
+function jenksInnerBreaks(sorted: number[], count: number): number[] {
+  const n = sorted.length;
+  if (count <= 1 || n <= count) {
+    return sorted.slice(0, n - 1);
+  }
+
+  // lowerClassLimits[i][j]: 1-based index of the first value in the last class
+  // when the first i values are split into j classes
+  const lowerClassLimits: number[][] = [];
+  const varianceCombinations: number[][] = [];
+  for (let i = 0; i <= n; i++) {
+    lowerClassLimits.push(new Array(count + 1).fill(0));
+    varianceCombinations.push(
+      new Array(count + 1).fill(i === 0 ? 0 : Infinity)
+    );
+  }
+  for (let j = 1; j <= count; j++) {
+    lowerClassLimits[1][j] = 1;
+    varianceCombinations[1][j] = 0;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = sorted[lowerIndex - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+      if (lowerIndex > 1) {
+        for (let j = 2; j <= count; j++) {
+          const candidate =
+            variance + varianceCombinations[lowerIndex - 1][j - 1];
+          if (varianceCombinations[l][j] >= candidate) {
+            lowerClassLimits[l][j] = lowerIndex;
+            varianceCombinations[l][j] = candidate;
+          }
+        }
+      }
+    }
+    lowerClassLimits[l][1] = 1;
+    varianceCombinations[l][1] = variance;
+  }
+
+  // Walk back from the last value, collecting the upper bound of each lower class
+  const inner: number[] = [];
+  let k = n;
+  for (let j = count; j >= 2; j--) {
+    const lowerIndex = lowerClassLimits[k][j];
+    inner.unshift(sorted[lowerIndex - 2]);
+    k = lowerIndex - 1;
+  }
+  return inner;
+}
+
+function range(start: number, end: number): number[] {
+  const result: number[] = [];
+  for (let i = start; i < end; i++) {
+    result.push(i);
+  }
+  return result;
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return values
+    .sort((a, b) => a - b)
+    .filter((value, index, all) => index === 0 || value !== all[index - 1]);
+}
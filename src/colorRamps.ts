@@ -0,0 +1,104 @@
+"use strict";
+
+import {
+  extent,
+  interpolateBlues,
+  interpolateGreens,
+  interpolateOranges,
+  interpolateRdBu,
+  interpolateRdYlGn,
+  interpolateRgb,
+  interpolateViridis,
+  scaleDiverging,
+  scaleSequential,
+} from "d3";
+import { getClassIndex } from "./classification";
+
+export interface ColorRampOptions {
+  ramp: string;
+  minColor: string;
+  midColor: string;
+  maxColor: string;
+}
+
+// Built-in d3 ramps offered next to the custom min/mid/max colours
+const SEQUENTIAL_SCHEMES: { [ramp: string]: (t: number) => string } = {
+  blues: interpolateBlues,
+  greens: interpolateGreens,
+  oranges: interpolateOranges,
+  viridis: interpolateViridis,
+};
+
+const DIVERGING_SCHEMES: { [ramp: string]: (t: number) => string } = {
+  rdbu: (t: number) => interpolateRdBu(1 - t), // Reversed so low values are blue and high values red
+  rdylgn: interpolateRdYlGn,
+};
+
+export function isDivergingRamp(ramp: string): boolean {
+  return ramp === "diverging" || ramp in DIVERGING_SCHEMES;
+}
+
+// Interpolator over [0, 1] for the selected ramp
+export function getRampInterpolator(
+  options: ColorRampOptions
+): (t: number) => string {
+  if (SEQUENTIAL_SCHEMES[options.ramp]) {
+    return SEQUENTIAL_SCHEMES[options.ramp];
+  }
+  if (DIVERGING_SCHEMES[options.ramp]) {
+    return DIVERGING_SCHEMES[options.ramp];
+  }
+  if (options.ramp === "diverging") {
+    const lower = interpolateRgb(options.minColor, options.midColor);
+    const upper = interpolateRgb(options.midColor, options.maxColor);
+    return (t: number) => (t < 0.5 ? lower(t * 2) : upper((t - 0.5) * 2));
+  }
+  return interpolateRgb(options.minColor, options.maxColor);
+}
+
+// Continuous colour scale over the extent of the values. Diverging ramps are
+// centred on zero when the values straddle it, otherwise on the mid-range.
+export function createValueColorScale(
+  values: number[],
+  options: ColorRampOptions
+): (value: number) => string {
+  const [min, max] = extent(values);
+  const interpolator = getRampInterpolator(options);
+  if (min === undefined || max === undefined || min === max) {
+    return () => interpolator(1);
+  }
+
+  if (isDivergingRamp(options.ramp)) {
+    const mid = min < 0 && max > 0 ? 0 : (min + max) / 2;
+    const scale = scaleDiverging(interpolator).domain([min, mid, max]);
+    return (value: number) => scale(value);
+  }
+
+  const scale = scaleSequential(interpolator).domain([min, max]);
+  return (value: number) => scale(value);
+}
+
+// One colour per class, spread evenly over the ramp
+export function getClassColors(
+  classCount: number,
+  options: ColorRampOptions
+): string[] {
+  const interpolator = getRampInterpolator(options);
+  const colors: string[] = [];
+  for (let i = 0; i < classCount; i++) {
+    colors.push(interpolator(classCount === 1 ? 1 : i / (classCount - 1)));
+  }
+  return colors;
+}
+
+// Stepped colour scale that paints every value with the colour of its class
+export function createClassColorScale(
+  breaks: number[],
+  options: ColorRampOptions
+): (value: number) => string {
+  const colors = getClassColors(Math.max(1, breaks.length - 1), options);
+  return (value: number) => {
+    const classIndex = getClassIndex(value, breaks);
+    return colors[classIndex >= 0 ? classIndex : colors.length - 1];
+  };
+}
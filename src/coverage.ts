@@ -0,0 +1,146 @@
+"use strict";
+
+import { DiagnosticsSection } from "./diagnostics";
+
+export type AdminCodeMatchStatus = "matched" | "unmatched" | "ambiguous";
+
+export interface AdminCodeCoverageEntry {
+  adminCode: string; // As first seen in the data
+  status: AdminCodeMatchStatus;
+  rowCount: number;
+  featureCount: number; // Base map features the code joins to
+}
+
+export interface AdminCodeCoverage {
+  entries: AdminCodeCoverageEntry[]; // Unmatched first, then ambiguous, then matched; most rows first
+  rowCount: number; // Rows with an admin code
+  unmatchedRowCount: number;
+}
+
+const STATUS_ORDER: AdminCodeMatchStatus[] = [
+  "unmatched",
+  "ambiguous",
+  "matched",
+];
+
+// Count the features for every join value; a feature counts once per distinct value
+export function indexFeaturesByJoinValue(
+  features: any[],
+  getJoinValues: (feature: any) => string[]
+): Map<string, number> {
+  const index = new Map<string, number>();
+  features.forEach((feature) => {
+    new Set(getJoinValues(feature)).forEach((value) =>
+      index.set(value, (index.get(value) || 0) + 1)
+    );
+  });
+  return index;
+}
+
+function getMatchStatus(featureCount: number): AdminCodeMatchStatus {
+  if (featureCount === 0) {
+    return "unmatched";
+  }
+  return featureCount === 1 ? "matched" : "ambiguous";
+}
+
+// Group the admin code of every data row and look up how many features each one joins to
+export function buildAdminCodeCoverage(
+  rowAdminCodes: string[],
+  normalize: (adminCode: string) => string,
+  countMatchingFeatures: (adminCode: string) => number
+): AdminCodeCoverage {
+  const entriesByCode = new Map<string, AdminCodeCoverageEntry>();
+  rowAdminCodes.forEach((adminCode) => {
+    const key = normalize(adminCode);
+    const entry = entriesByCode.get(key);
+    if (entry) {
+      entry.rowCount++;
+      return;
+    }
+    const featureCount = countMatchingFeatures(adminCode);
+    entriesByCode.set(key, {
+      adminCode,
+      status: getMatchStatus(featureCount),
+      rowCount: 1,
+      featureCount,
+    });
+  });
+
+  const entries = Array.from(entriesByCode.values()).sort(
+    (a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      b.rowCount - a.rowCount
+  );
+  return {
+    entries,
+    rowCount: rowAdminCodes.length,
+    unmatchedRowCount: entries
+      .filter((entry) => entry.status === "unmatched")
+      .reduce((sum, entry) => sum + entry.rowCount, 0),
+  };
+}
+
+// Share of rows, 0 to 100, whose admin code has no feature
+export function getUnmatchedRowShare(coverage: AdminCodeCoverage): number {
+  return coverage.rowCount > 0
+    ? (coverage.unmatchedRowCount / coverage.rowCount) * 100
+    : 0;
+}
+
+export function getAdminCodeCoverageSection(
+  coverage: AdminCodeCoverage,
+  unmatchedThreshold: number
+): DiagnosticsSection {
+  const summarize = (status: AdminCodeMatchStatus) => {
+    const entries = coverage.entries.filter((entry) => entry.status === status);
+    const rows = entries.reduce((sum, entry) => sum + entry.rowCount, 0);
+    return { codes: entries.length, rows };
+  };
+  const matched = summarize("matched");
+  const unmatched = summarize("unmatched");
+  const ambiguous = summarize("ambiguous");
+  const unmatchedShare = getUnmatchedRowShare(coverage);
+
+  return {
+    title: "Admin code coverage",
+    rows: [
+      { label: "Rows with an admin code", value: String(coverage.rowCount) },
+      {
+        label: "Matched codes",
+        value: `${matched.codes} (${matched.rows} rows)`,
+      },
+      {
+        label: "Unmatched codes",
+        value: `${unmatched.codes} (${unmatched.rows} rows)`,
+        status: getUnmatchedStatus(unmatched.codes, coverage.entries.length),
+      },
+      {
+        label: "Ambiguous codes",
+        value: `${ambiguous.codes} (${ambiguous.rows} rows)`,
+        status: ambiguous.codes > 0 ? "warning" : "ok",
+      },
+      {
+        label: "Unmatched rows",
+        value: `${unmatchedShare.toFixed(1)}%`,
+        status: unmatchedShare > unmatchedThreshold ? "warning" : "ok",
+      },
+    ],
+    notes: coverage.entries.map((entry) =>
+      entry.status === "ambiguous"
+        ? `${entry.adminCode}: ambiguous, ${entry.featureCount} features, ${entry.rowCount} rows`
+        : `${entry.adminCode}: ${entry.status}, ${entry.rowCount} rows`
+    ),
+  };
+}
+
+// When no code joins at all the choropleth is empty
+function getUnmatchedStatus(
+  unmatchedCodes: number,
+  totalCodes: number
+): "ok" | "warning" | "error" {
+  if (unmatchedCodes === 0) {
+    return "ok";
+  }
+  return unmatchedCodes >= totalCodes ? "error" : "warning";
+}
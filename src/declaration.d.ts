@@ -15,3 +15,17 @@ declare module "leaflet/dist/images/marker-icon.png" {
   const value: string;
   export default value;
 }
+
+// shpjs 6 ships without typings; only the zip parser is used
+declare module "shpjs" {
+  import { FeatureCollection } from "geojson";
+
+  export type FeatureCollectionWithFilename = FeatureCollection & {
+    fileName?: string;
+  };
+
+  export function parseZip(
+    buffer: ArrayBuffer,
+    whiteList?: string[]
+  ): Promise<FeatureCollectionWithFilename | FeatureCollectionWithFilename[]>;
+}
@@ -0,0 +1,101 @@
+"use strict";
+
+import * as L from "leaflet";
+
+export type DiagnosticsStatus = "ok" | "warning" | "error";
+
+export interface DiagnosticsRow {
+  label: string;
+  value: string;
+  status?: DiagnosticsStatus;
+}
+
+export interface DiagnosticsSection {
+  title: string;
+  rows: DiagnosticsRow[];
+  notes: string[]; // Details listed under the rows, e.g. the first few problem features
+}
+
+// Collapsible on-canvas panel that helps report authors find problems in their map files and data
+export class DiagnosticsControl extends L.Control {
+  private container: HTMLElement;
+  private header: HTMLElement;
+  private body: HTMLElement;
+  private collapsed: boolean = false;
+
+  constructor(options?: L.ControlOptions) {
+    super(options);
+    this.container = L.DomUtil.create("div", "map-diagnostics");
+    this.header = L.DomUtil.create(
+      "div",
+      "map-diagnostics-header",
+      this.container
+    );
+    this.header.textContent = "Diagnostics";
+    this.body = L.DomUtil.create("div", "map-diagnostics-body", this.container);
+
+    L.DomEvent.disableClickPropagation(this.container);
+    L.DomEvent.disableScrollPropagation(this.container);
+    L.DomEvent.on(this.header, "click", () => {
+      this.collapsed = !this.collapsed;
+      this.body.style.display = this.collapsed ? "none" : "block";
+      this.header.classList.toggle("collapsed", this.collapsed);
+    });
+  }
+
+  public onAdd(): HTMLElement {
+    return this.container;
+  }
+
+  public update(sections: DiagnosticsSection[]): void {
+    while (this.body.firstChild) {
+      this.body.removeChild(this.body.firstChild);
+    }
+    sections.forEach((section) => {
+      const title = L.DomUtil.create(
+        "div",
+        "map-diagnostics-section",
+        this.body
+      );
+      title.textContent = section.title;
+
+      section.rows.forEach((row) => {
+        const item = L.DomUtil.create(
+          "div",
+          `map-diagnostics-row ${row.status || "ok"}`,
+          this.body
+        );
+        const label = L.DomUtil.create("span", "map-diagnostics-label", item);
+        label.textContent = row.label;
+        const value = L.DomUtil.create("span", "map-diagnostics-value", item);
+        value.textContent = row.value;
+      });
+
+      section.notes.forEach((note) => {
+        const item = L.DomUtil.create("div", "map-diagnostics-note", this.body);
+        item.textContent = note;
+      });
+    });
+  }
+}
+
+// Small warning shown on the map while a diagnostics check fails; clicking it opens the panel
+export class DiagnosticsBadge extends L.Control {
+  private container: HTMLElement;
+
+  constructor(options: L.ControlOptions, onClick: () => void) {
+    super(options);
+    this.container = L.DomUtil.create("div", "map-diagnostics-badge");
+    this.container.title = "Show diagnostics";
+    L.DomEvent.disableClickPropagation(this.container);
+    L.DomEvent.on(this.container, "click", onClick);
+  }
+
+  public onAdd(): HTMLElement {
+    return this.container;
+  }
+
+  public setText(text: string): void {
+    this.container.textContent = `⚠ ${text}`;
+  }
+}
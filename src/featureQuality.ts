@@ -0,0 +1,168 @@
+"use strict";
+
+import { FeatureCollection } from "geojson";
+import { DiagnosticsSection } from "./diagnostics";
+import { getGeometryProblem } from "./geometry";
+
+const MAX_LISTED_PROBLEMS = 5;
+
+export interface FeatureProblem {
+  index: number; // Position of the feature in the file
+  problem: string;
+}
+
+export interface FeatureQualityReport {
+  featureCount: number;
+  geometryTypes: { [type: string]: number };
+  nullGeometries: number;
+  invalidGeometries: FeatureProblem[]; // Geometries present but not drawable, null geometries excluded
+  missingJoinKey: number;
+  duplicateKeys: { key: string; count: number }[];
+}
+
+// Check every feature of a loaded base map; getJoinValues returns a feature's
+// normalised join values, the first of which identifies the feature
+export function validateFeatureCollection(
+  collection: FeatureCollection,
+  getJoinValues: (feature: any) => string[]
+): FeatureQualityReport {
+  const report: FeatureQualityReport = {
+    featureCount: collection.features.length,
+    geometryTypes: {},
+    nullGeometries: 0,
+    invalidGeometries: [],
+    missingJoinKey: 0,
+    duplicateKeys: [],
+  };
+  const keyCounts = new Map<string, number>();
+
+  collection.features.forEach((feature, index) => {
+    const geometry: any = feature?.geometry;
+    if (!geometry) {
+      report.nullGeometries++;
+    } else {
+      const type = String(geometry.type);
+      report.geometryTypes[type] = (report.geometryTypes[type] || 0) + 1;
+      const problem = getGeometryProblem(geometry);
+      if (problem) {
+        report.invalidGeometries.push({ index, problem });
+      }
+    }
+
+    const key = getJoinValues(feature)[0];
+    if (key === undefined) {
+      report.missingJoinKey++;
+    } else {
+      keyCounts.set(key, (keyCounts.get(key) || 0) + 1);
+    }
+  });
+
+  keyCounts.forEach((count, key) => {
+    if (count > 1) {
+      report.duplicateKeys.push({ key, count });
+    }
+  });
+  return report;
+}
+
+// A file without a single drawable feature is treated as a failed load
+export function hasDrawableFeatures(report: FeatureQualityReport): boolean {
+  return (
+    report.featureCount -
+      report.nullGeometries -
+      report.invalidGeometries.length >
+    0
+  );
+}
+
+// Problems that leave nothing to draw or nothing to join the data to
+export function getFeatureQualityErrors(
+  report: FeatureQualityReport
+): string[] {
+  const errors: string[] = [];
+  if (report.featureCount === 0) {
+    errors.push("The file has no features");
+  } else if (!hasDrawableFeatures(report)) {
+    errors.push("No feature has a valid geometry");
+  }
+  if (
+    report.featureCount > 0 &&
+    report.missingJoinKey === report.featureCount
+  ) {
+    errors.push("No feature has the join property or an alternate join key");
+  }
+  return errors;
+}
+
+// One-line summary for the error state
+export function summarizeFeatureQuality(report: FeatureQualityReport): string {
+  return [
+    `${report.featureCount} features`,
+    `${report.missingJoinKey} missing the join key`,
+    `${report.duplicateKeys.length} duplicate keys`,
+    `${report.nullGeometries + report.invalidGeometries.length} with null or invalid geometry`,
+  ].join(", ");
+}
+
+export function getFeatureQualitySection(
+  report: FeatureQualityReport,
+  joinProperties: string[]
+): DiagnosticsSection {
+  const geometryTypes = Object.keys(report.geometryTypes)
+    .map((type) => `${type} ${report.geometryTypes[type]}`)
+    .join(", ");
+  const errors = getFeatureQualityErrors(report);
+  const notes = [
+    ...errors,
+    ...report.duplicateKeys
+      .slice(0, MAX_LISTED_PROBLEMS)
+      .map(({ key, count }) => `Key "${key}" is used by ${count} features`),
+    ...report.invalidGeometries
+      .slice(0, MAX_LISTED_PROBLEMS)
+      .map(({ index, problem }) => `Feature ${index + 1}: ${problem}`),
+  ];
+
+  return {
+    title: "Base map file",
+    rows: [
+      {
+        label: "Features",
+        value: String(report.featureCount),
+        status: report.featureCount > 0 ? "ok" : "error",
+      },
+      { label: "Geometry types", value: geometryTypes || "none" },
+      {
+        label: `Missing join key (${joinProperties.join(", ")})`,
+        value: String(report.missingJoinKey),
+        status: getCountStatus(report.missingJoinKey, report.featureCount),
+      },
+      {
+        label: "Duplicate keys",
+        value: String(report.duplicateKeys.length),
+        status: report.duplicateKeys.length > 0 ? "warning" : "ok",
+      },
+      {
+        label: "Null geometries",
+        value: String(report.nullGeometries),
+        status: report.nullGeometries > 0 ? "warning" : "ok",
+      },
+      {
+        label: "Invalid geometries",
+        value: String(report.invalidGeometries.length),
+        status: report.invalidGeometries.length > 0 ? "warning" : "ok",
+      },
+    ],
+    notes,
+  };
+}
+
+// None is fine, some need a look, all means the join cannot work
+function getCountStatus(
+  count: number,
+  total: number
+): "ok" | "warning" | "error" {
+  if (count === 0) {
+    return "ok";
+  }
+  return count >= total ? "error" : "warning";
+}
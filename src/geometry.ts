@@ -0,0 +1,280 @@
+"use strict";
+
+import { Geometry } from "geojson";
+
+const GEOJSON_GEOMETRY_TYPES = [
+  "Point",
+  "MultiPoint",
+  "LineString",
+  "MultiLineString",
+  "Polygon",
+  "MultiPolygon",
+  "GeometryCollection",
+];
+
+// WKT keyword -> GeoJSON type, with the nesting depth of its coordinate array
+const WKT_TYPES: { [keyword: string]: { type: string; depth: number } } = {
+  POINT: { type: "Point", depth: 1 },
+  MULTIPOINT: { type: "MultiPoint", depth: 2 },
+  LINESTRING: { type: "LineString", depth: 2 },
+  MULTILINESTRING: { type: "MultiLineString", depth: 3 },
+  POLYGON: { type: "Polygon", depth: 3 },
+  MULTIPOLYGON: { type: "MultiPolygon", depth: 4 },
+};
+
+// WKT numbers may have a sign and leave out either side of the point: +1, .5, 5.
+const NUMBER_PATTERN = "[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?";
+const COORDINATE_TUPLE = new RegExp(
+  `(${NUMBER_PATTERN})\\s+(${NUMBER_PATTERN})(?:\\s+${NUMBER_PATTERN}){0,2}`,
+  "g"
+);
+
+// Parse a row value holding either WKT or GeoJSON geometry text
+export function parseGeometryText(value: any): Geometry | null {
+  if (value === null || value === undefined) return null;
+  const raw = String(value).trim();
+  if (!raw || raw === "NA") return null;
+
+  if (raw.startsWith("{")) {
+    return parseGeoJsonGeometry(raw);
+  }
+  return parseWkt(raw);
+}
+
+function parseGeoJsonGeometry(raw: string): Geometry | null {
+  try {
+    const obj = JSON.parse(raw);
+    // Accept a bare geometry or a Feature wrapping one
+    const geometry = obj && obj.type === "Feature" ? obj.geometry : obj;
+    if (geometry && GEOJSON_GEOMETRY_TYPES.includes(geometry.type)) {
+      return geometry as Geometry;
+    }
+  } catch (_) {
+    // Not valid JSON
+  }
+  return null;
+}
+
+// Convert WKT to GeoJSON by rewriting its coordinate body as a JSON array
+function parseWkt(raw: string): Geometry | null {
+  // Drop an EWKT "SRID=4326;" prefix, coordinates are assumed to be WGS84
+  const text = raw.replace(/^SRID=\d+;/i, "");
+  const match = text.match(/^([A-Za-z]+)\s*(?:ZM|Z|M)?\s*(\(.*\))\s*$/s);
+  if (!match) return null;
+
+  const wktType = WKT_TYPES[match[1].toUpperCase()];
+  if (!wktType) return null;
+
+  let coordinates: any;
+  try {
+    const json = match[2]
+      // Number() turns them into JSON numbers
+      .replace(
+        COORDINATE_TUPLE,
+        (_, x: string, y: string) => `[${Number(x)},${Number(y)}]`
+      )
+      .replace(/\(/g, "[")
+      .replace(/\)/g, "]");
+    coordinates = JSON.parse(json);
+  } catch (_) {
+    return null;
+  }
+
+  // The outer parentheses add one level around a point: POINT (30 10) -> [[30, 10]]
+  if (wktType.type === "Point") {
+    coordinates = coordinates[0];
+  }
+  // MULTIPOINT allows both "(10 40, 40 30)" and "((10 40), (40 30))"
+  if (wktType.type === "MultiPoint") {
+    coordinates = coordinates.map((point: any) =>
+      Array.isArray(point[0]) ? point[0] : point
+    );
+  }
+
+  if (getArrayDepth(coordinates) !== wktType.depth) {
+    return null;
+  }
+  return { type: wktType.type, coordinates } as Geometry;
+}
+
+function getArrayDepth(value: any): number {
+  let depth = 0;
+  while (Array.isArray(value)) {
+    depth++;
+    value = value[0];
+  }
+  return depth;
+}
+
+// Ray-casting test of a [lng, lat] point against a closed or open ring of [lng, lat] positions
+export function isPointInRing(
+  point: [number, number],
+  ring: [number, number][]
+): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Outer rings of every polygon in a geometry, descending into geometry collections
+function getOuterRings(geometry: any): [number, number][][] {
+  switch (geometry?.type) {
+    case "Polygon":
+      return [geometry.coordinates?.[0]];
+    case "MultiPolygon":
+      return (geometry.coordinates || []).map((polygon: any) => polygon?.[0]);
+    case "GeometryCollection":
+      return (geometry.geometries || []).flatMap(getOuterRings);
+    default:
+      return [];
+  }
+}
+
+function getPositions(coordinates: any): [number, number][] {
+  return getArrayDepth(coordinates) === 1
+    ? [coordinates]
+    : (coordinates || []).flatMap(getPositions);
+}
+
+// Area-weighted centroid of the largest polygon as [lng, lat], so a country with islands
+// gets its mainland centre. Points and lines use the centre of their bounding box.
+export function getGeometryCentroid(geometry: any): [number, number] | null {
+  let best: [number, number] | null = null;
+  let bestArea = 0;
+  for (const ring of getOuterRings(geometry)) {
+    if (!Array.isArray(ring) || ring.length < 3) {
+      continue;
+    }
+    let area = 0;
+    let x = 0;
+    let y = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const cross = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+      area += cross;
+      x += (ring[j][0] + ring[i][0]) * cross;
+      y += (ring[j][1] + ring[i][1]) * cross;
+    }
+    if (Math.abs(area) > bestArea) {
+      bestArea = Math.abs(area);
+      best = [x / (3 * area), y / (3 * area)];
+    }
+  }
+  if (best) {
+    return best;
+  }
+
+  const positions = (
+    geometry?.type === "GeometryCollection"
+      ? (geometry.geometries || []).flatMap((part: any) =>
+          getPositions(part?.coordinates)
+        )
+      : getPositions(geometry?.coordinates)
+  ).filter(isPosition);
+  if (positions.length === 0) {
+    return null;
+  }
+  const [minLng, minLat, maxLng, maxLat] = positions.reduce(
+    (extent, [lng, lat]) => [
+      Math.min(extent[0], lng),
+      Math.min(extent[1], lat),
+      Math.max(extent[2], lng),
+      Math.max(extent[3], lat),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+  return [(minLng + maxLng) / 2, (minLat + maxLat) / 2];
+}
+
+function isPosition(value: any): boolean {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+function getRingProblem(ring: any): string | null {
+  if (!Array.isArray(ring) || !ring.every(isPosition)) {
+    return "ring has invalid coordinates";
+  }
+  if (ring.length < 4) {
+    return "ring has fewer than 4 positions";
+  }
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return "ring is not closed";
+  }
+  return null;
+}
+
+function getPolygonProblem(rings: any): string | null {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return "polygon has no rings";
+  }
+  for (const ring of rings) {
+    const problem = getRingProblem(ring);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+function getLineProblem(line: any): string | null {
+  if (!Array.isArray(line) || !line.every(isPosition)) {
+    return "line has invalid coordinates";
+  }
+  return line.length < 2 ? "line has fewer than 2 positions" : null;
+}
+
+// Describe why a GeoJSON geometry cannot be drawn, or null when it is valid.
+// Coordinates must be WGS84 longitude / latitude pairs.
+export function getGeometryProblem(geometry: any): string | null {
+  if (!geometry) {
+    return "geometry is null";
+  }
+  if (geometry.type === "GeometryCollection") {
+    if (!Array.isArray(geometry.geometries)) {
+      return "geometry collection has no geometries";
+    }
+    for (const part of geometry.geometries) {
+      const problem = getGeometryProblem(part);
+      if (problem) return problem;
+    }
+    return null;
+  }
+  if (!GEOJSON_GEOMETRY_TYPES.includes(geometry.type)) {
+    return `unknown geometry type "${geometry.type}"`;
+  }
+
+  const coordinates = geometry.coordinates;
+  switch (geometry.type) {
+    case "Point":
+      return isPosition(coordinates) ? null : "point has invalid coordinates";
+    case "MultiPoint":
+      return Array.isArray(coordinates) && coordinates.every(isPosition)
+        ? null
+        : "points have invalid coordinates";
+    case "LineString":
+      return getLineProblem(coordinates);
+    case "MultiLineString":
+      return Array.isArray(coordinates)
+        ? coordinates.map(getLineProblem).find((problem) => problem) || null
+        : "lines have invalid coordinates";
+    case "Polygon":
+      return getPolygonProblem(coordinates);
+    default:
+      return Array.isArray(coordinates) && coordinates.length > 0
+        ? coordinates.map(getPolygonProblem).find((problem) => problem) || null
+        : "multipolygon has no polygons";
+  }
+}
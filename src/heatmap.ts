@@ -0,0 +1,80 @@
+"use strict";
+
+import { getRampInterpolator } from "./colorRamps";
+
+// Heat stop (0 to 1) -> colour, as leaflet.heat expects
+export interface HeatmapGradient {
+  [stop: number]: string;
+}
+
+// A row in the filter context; rows without a Heat weight field have a weight of 1
+export interface HeatmapObservation {
+  latitude?: number;
+  longitude?: number;
+  weight: number;
+}
+
+// leaflet.heat's own default, spelled out so the legend can show it
+const CLASSIC_GRADIENT: HeatmapGradient = {
+  0.4: "blue",
+  0.6: "cyan",
+  0.7: "lime",
+  0.8: "yellow",
+  1: "red",
+};
+
+// Heat below 0.4 fades out, so colour ramps are spread over the stops above it
+const RAMP_STOPS = [0.4, 0.55, 0.7, 0.85, 1];
+
+// "classic" or one of the colour ramps of colorRamps.ts; "sequential" runs from lowColor to highColor
+export function getHeatmapGradient(
+  gradient: string,
+  lowColor: string,
+  highColor: string
+): HeatmapGradient {
+  if (gradient === "classic") {
+    return { ...CLASSIC_GRADIENT };
+  }
+  const interpolator = getRampInterpolator({
+    ramp: gradient,
+    minColor: lowColor,
+    midColor: lowColor,
+    maxColor: highColor,
+  });
+  const result: HeatmapGradient = {};
+  RAMP_STOPS.forEach((stop, index) => {
+    result[stop] = interpolator(index / (RAMP_STOPS.length - 1));
+  });
+  return result;
+}
+
+// Colours of a gradient from low to high heat
+export function getHeatmapGradientColors(gradient: HeatmapGradient): string[] {
+  return Object.keys(gradient)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map((stop) => gradient[stop]);
+}
+
+// [lat, lng, weight] points for leaflet.heat. Rows without a position, and weights
+// that are missing, zero or negative, add no heat.
+export function buildHeatmapPoints(
+  observations: HeatmapObservation[]
+): [number, number, number][] {
+  return observations
+    .filter(
+      ({ latitude, longitude, weight }) =>
+        Number.isFinite(latitude) && Number.isFinite(longitude) && weight > 0
+    )
+    .map(({ latitude, longitude, weight }) => [latitude, longitude, weight]);
+}
+
+// Intensity at which a point reaches the top of the gradient; 0 or less
+// uses the heaviest weight, so an unweighted heatmap keeps the plugin's scale
+export function getHeatmapMax(weights: number[], maxIntensity: number): number {
+  if (maxIntensity > 0) {
+    return maxIntensity;
+  }
+  const heaviest = weights.reduce((max, weight) => Math.max(max, weight), 0);
+  return heaviest > 0 ? heaviest : 1;
+}
@@ -0,0 +1,11 @@
+"use strict";
+
+// Escape text from map files, settings or report data before it goes into HTML markup
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
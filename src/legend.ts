@@ -0,0 +1,93 @@
+"use strict";
+
+import * as L from "leaflet";
+
+export interface LegendItem {
+  label: string;
+  symbol: "fill" | "pin" | "circle" | "line" | "dashedLine" | "gradient";
+  color: string;
+  opacity?: number;
+  gradientColors?: string[]; // Colours of a continuous ramp, low to high
+}
+
+export interface LegendSection {
+  title: string;
+  items: LegendItem[];
+}
+
+// Collapsible Leaflet control listing the symbols of the layers on the map
+export class LegendControl extends L.Control {
+  private container: HTMLElement;
+  private header: HTMLElement;
+  private body: HTMLElement;
+  private collapsed: boolean = false;
+
+  constructor(options?: L.ControlOptions) {
+    super(options);
+    this.container = L.DomUtil.create("div", "map-legend");
+    this.header = L.DomUtil.create("div", "map-legend-header", this.container);
+    this.body = L.DomUtil.create("div", "map-legend-body", this.container);
+
+    L.DomEvent.disableClickPropagation(this.container);
+    L.DomEvent.disableScrollPropagation(this.container);
+    L.DomEvent.on(this.header, "click", () => {
+      this.collapsed = !this.collapsed;
+      this.body.style.display = this.collapsed ? "none" : "block";
+      this.header.classList.toggle("collapsed", this.collapsed);
+    });
+  }
+
+  public onAdd(): HTMLElement {
+    return this.container;
+  }
+
+  // Rebuild the legend; it hides itself when every section is empty
+  public update(title: string, sections: LegendSection[]): void {
+    const visibleSections = sections.filter(
+      (section) => section.items.length > 0
+    );
+    this.container.style.display =
+      visibleSections.length > 0 ? "block" : "none";
+
+    this.header.textContent = title || "Legend";
+    while (this.body.firstChild) {
+      this.body.removeChild(this.body.firstChild);
+    }
+
+    visibleSections.forEach((section) => {
+      const sectionTitle = L.DomUtil.create(
+        "div",
+        "map-legend-section",
+        this.body
+      );
+      sectionTitle.textContent = section.title;
+      section.items.forEach((item) =>
+        this.body.appendChild(this.createItem(item))
+      );
+    });
+  }
+
+  private createItem(item: LegendItem): HTMLElement {
+    const row = document.createElement("div");
+    row.className = "map-legend-item";
+
+    const symbol = document.createElement("span");
+    symbol.className = `map-legend-symbol map-legend-${item.symbol}`;
+    symbol.style.opacity = String(item.opacity ?? 1);
+    if (item.symbol === "gradient" && item.gradientColors) {
+      symbol.style.background = `linear-gradient(to right, ${item.gradientColors.join(", ")})`;
+    } else if (item.symbol === "line" || item.symbol === "dashedLine") {
+      symbol.style.borderTopColor = item.color;
+    } else {
+      symbol.style.backgroundColor = item.color;
+    }
+    row.appendChild(symbol);
+
+    const label = document.createElement("span");
+    label.className = "map-legend-label";
+    label.textContent = item.label;
+    row.appendChild(label);
+
+    return row;
+  }
+}
@@ -0,0 +1,198 @@
+"use strict";
+
+// Persistent cache of fetched map files, so large boundary files are not
+// downloaded again every time the visual is created
+
+import { DiagnosticsSection } from "./diagnostics";
+import { MapFetch, MapLoadError } from "./mapLoader";
+
+const DATABASE_NAME = "mapVisualCache";
+const STORE_NAME = "mapFiles";
+
+interface CachedMapFile {
+  url: string;
+  body: ArrayBuffer;
+  contentType: string;
+  etag: string;
+  lastModified: string;
+  storedAt: number; // When the file was last downloaded or revalidated (ms since epoch)
+}
+
+export interface MapCacheOptions {
+  fetch: MapFetch; // Downloads files and revalidates entries
+  maxAgeMs: number; // Older entries are still used, then revalidated in the background
+  onRefresh: () => void; // Called when a background revalidation stored a newer file
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      // Sandboxed frames may not have IndexedDB at all
+      const request = indexedDB.open(DATABASE_NAME, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(STORE_NAME, { keyPath: "url" });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function runInStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(
+      database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readEntry(url: string): Promise<CachedMapFile | undefined> {
+  return runInStore("readonly", (store) => store.get(url)).catch(
+    () => undefined
+  );
+}
+
+function writeEntry(entry: CachedMapFile): Promise<void> {
+  return runInStore("readwrite", (store) => store.put(entry))
+    .then(() => undefined)
+    .catch(() => undefined);
+}
+
+// False when IndexedDB is missing or blocked; every file is then downloaded again
+export function isMapCacheAvailable(): Promise<boolean> {
+  return openDatabase().then(
+    () => true,
+    () => false
+  );
+}
+
+export function getMapCacheUnavailableSection(): DiagnosticsSection {
+  return {
+    title: "Map cache",
+    rows: [
+      {
+        label: "Status",
+        value: "Cache unavailable",
+        status: "warning",
+      },
+    ],
+    notes: [
+      "The browser blocks IndexedDB for this visual, so map files are downloaded every time it is created",
+    ],
+  };
+}
+
+export function clearMapCache(): Promise<void> {
+  return runInStore("readwrite", (store) => store.clear())
+    .then(() => undefined)
+    .catch(() => undefined);
+}
+
+function toResponse(entry: CachedMapFile): Response {
+  return new Response(entry.body, {
+    status: 200,
+    headers: entry.contentType ? { "content-type": entry.contentType } : {},
+  });
+}
+
+// Download a file and store it; failed responses are returned as they are and not cached
+async function downloadAndStore(
+  fetchFile: MapFetch,
+  url: string,
+  init?: RequestInit
+): Promise<{ response: Response; entry: CachedMapFile | null }> {
+  const response = await fetchFile(url, init);
+  if (!response.ok) {
+    return { response, entry: null };
+  }
+  const entry: CachedMapFile = {
+    url,
+    body: await response.arrayBuffer(),
+    contentType: response.headers.get("content-type") || "",
+    etag: response.headers.get("etag") || "",
+    lastModified: response.headers.get("last-modified") || "",
+    storedAt: Date.now(),
+  };
+  await writeEntry(entry);
+  return { response: toResponse(entry), entry };
+}
+
+// Ask the server whether the cached file changed; true when a newer file was stored
+async function revalidate(
+  fetchFile: MapFetch,
+  entry: CachedMapFile
+): Promise<boolean> {
+  const headers: { [name: string]: string } = {};
+  if (entry.etag) {
+    headers["If-None-Match"] = entry.etag;
+  }
+  if (entry.lastModified) {
+    headers["If-Modified-Since"] = entry.lastModified;
+  }
+
+  let result: { response: Response; entry: CachedMapFile | null };
+  try {
+    // cache: "no-store" keeps the browser from answering the conditional request itself
+    result = await downloadAndStore(fetchFile, entry.url, {
+      headers,
+      cache: "no-store",
+    });
+  } catch (error) {
+    // Conditional headers need a CORS preflight that not every server allows
+    if (!(error instanceof MapLoadError) || error.kind !== "cors") {
+      throw error;
+    }
+    result = await downloadAndStore(fetchFile, entry.url, {
+      cache: "no-store",
+    });
+  }
+
+  if (result.response.status === 304) {
+    await writeEntry({ ...entry, storedAt: Date.now() });
+    return false;
+  }
+  if (!result.entry) {
+    return false;
+  }
+  // Servers that ignore conditional requests still send the same validators back
+  const unchanged =
+    (entry.etag && result.entry.etag === entry.etag) ||
+    (!entry.etag &&
+      entry.lastModified &&
+      result.entry.lastModified === entry.lastModified);
+  return !unchanged;
+}
+
+// Fetch a map file from the cache when there is a copy, otherwise from the network.
+// Copies older than maxAgeMs are returned straight away and revalidated with
+// ETag / Last-Modified in the background.
+export async function fetchWithCache(
+  url: string,
+  options: MapCacheOptions
+): Promise<Response> {
+  const entry = await readEntry(url);
+  if (!entry) {
+    return (await downloadAndStore(options.fetch, url)).response;
+  }
+  if (Date.now() - entry.storedAt >= options.maxAgeMs) {
+    revalidate(options.fetch, entry)
+      .then((changed) => {
+        if (changed) {
+          options.onRefresh();
+        }
+      })
+      .catch(() => undefined);
+  }
+  return toResponse(entry);
+}
@@ -0,0 +1,63 @@
+"use strict";
+
+import { FeatureCollection } from "geojson";
+import { gpx, kml } from "@tmcw/togeojson";
+import * as shp from "shpjs";
+import { toFeatureCollection } from "./topology";
+
+export type MapFileFormat = "geojson" | "shapefile" | "kml" | "gpx";
+
+// Matched exactly, so "application/gzip" is not taken for a zipped shapefile
+const ZIP_CONTENT_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+// Detect a map file's format from its content type, then from the URL's extension
+export function detectMapFileFormat(
+  url: string,
+  contentType: string | null
+): MapFileFormat {
+  const type = (contentType || "").toLowerCase();
+  const mediaType = type.split(";")[0].trim();
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (ZIP_CONTENT_TYPES.includes(mediaType) || path.endsWith(".zip")) {
+    return "shapefile";
+  }
+  if (type.includes("kml") || path.endsWith(".kml")) {
+    return "kml";
+  }
+  if (type.includes("gpx") || path.endsWith(".gpx")) {
+    return "gpx";
+  }
+  return "geojson";
+}
+
+// Read a fetched map file as GeoJSON features; TopoJSON is converted from the named object
+export async function readMapFile(
+  response: Response,
+  format: MapFileFormat,
+  topologyObjectName: string = ""
+): Promise<FeatureCollection> {
+  switch (format) {
+    case "shapefile": {
+      // shpjs reprojects to WGS84 with the .prj of each shapefile in the archive
+      const result = await shp.parseZip(await response.arrayBuffer());
+      const collections = Array.isArray(result) ? result : [result];
+      return {
+        type: "FeatureCollection",
+        features: collections.flatMap((collection) => collection.features),
+      };
+    }
+    case "kml":
+    case "gpx": {
+      const xml = new DOMParser().parseFromString(
+        await response.text(),
+        "text/xml"
+      );
+      if (xml.getElementsByTagName("parsererror").length > 0) {
+        throw new Error(`Invalid ${format.toUpperCase()} document`);
+      }
+      return (format === "kml" ? kml(xml) : gpx(xml)) as FeatureCollection;
+    }
+    default:
+      return toFeatureCollection(await response.json(), topologyObjectName);
+  }
+}
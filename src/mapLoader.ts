@@ -0,0 +1,247 @@
+"use strict";
+
+// Fetching of map files with a timeout, retries and cancellation when a newer load starts
+
+export type MapLoadErrorKind =
+  "http" | "cors" | "timeout" | "parse" | "invalid"; // Read, but with nothing that can be drawn
+
+export class MapLoadError extends Error {
+  kind: MapLoadErrorKind;
+  status: number; // HTTP status for "http" errors, otherwise 0
+
+  constructor(kind: MapLoadErrorKind, message: string, status: number = 0) {
+    super(message);
+    this.name = "MapLoadError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export interface MapLoaderOptions {
+  timeoutMs: number; // Per attempt
+  retries: number; // Attempts after the first one
+  retryDelayMs: number; // Doubled after every failed attempt
+  signal?: AbortSignal; // Aborts the load and every retry
+}
+
+export type MapFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+function isAbortError(error: any): boolean {
+  return error?.name === "AbortError";
+}
+
+// Rate limits and server errors may pass; other HTTP errors will not
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Load aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException("Load aborted", "AbortError"));
+      },
+      { once: true }
+    );
+  });
+}
+
+// One attempt, aborted after timeoutMs or when the caller's signal aborts. The body is
+// read within the attempt, so a stalled download times out and is retried like any other
+async function fetchOnce(
+  url: string,
+  init: RequestInit,
+  options: MapLoaderOptions
+): Promise<Response> {
+  if (options.signal?.aborted) {
+    throw new DOMException("Load aborted", "AbortError");
+  }
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener("abort", onAbort);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    // 304 answers a conditional request and is handled by the caller
+    if (!response.ok && response.status !== 304) {
+      throw new MapLoadError(
+        "http",
+        `HTTP ${response.status}${
+          response.statusText ? ` ${response.statusText}` : ""
+        }`,
+        response.status
+      );
+    }
+    // 304 has no body, and a Response cannot be built with one
+    const body = response.status === 304 ? null : await response.arrayBuffer();
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (error) {
+    if (error instanceof MapLoadError || options.signal?.aborted) {
+      throw error;
+    }
+    if (timedOut) {
+      throw new MapLoadError(
+        "timeout",
+        `The file did not load within ${options.timeoutMs / 1000} s`
+      );
+    }
+    // Browsers report a blocked cross-origin request and an unreachable host with the same TypeError
+    throw new MapLoadError(
+      "cors",
+      "The request was blocked (CORS) or the server could not be reached"
+    );
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+// Fetch a map file, retrying timeouts, network failures and retryable HTTP statuses with backoff.
+// Failures are MapLoadErrors; an aborted load rejects with the AbortError.
+export async function fetchMapFile(
+  url: string,
+  init: RequestInit,
+  options: MapLoaderOptions
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, init, options);
+    } catch (error) {
+      const retryable =
+        error instanceof MapLoadError &&
+        (error.kind !== "http" || isRetryableStatus(error.status));
+      if (!retryable || attempt >= options.retries) {
+        if (error instanceof MapLoadError && attempt > 0) {
+          error.message += ` (after ${attempt + 1} attempts)`;
+        }
+        throw error;
+      }
+      await wait(options.retryDelayMs * Math.pow(2, attempt), options.signal);
+    }
+  }
+}
+
+// Read errors that did not come from fetching are the file's content failing to parse
+export function toMapLoadError(error: any): MapLoadError | null {
+  if (isAbortError(error)) {
+    return null;
+  }
+  if (error instanceof MapLoadError) {
+    return error;
+  }
+  return new MapLoadError("parse", error?.message || String(error));
+}
+
+export interface MapLoadTicket {
+  signal: AbortSignal;
+  isCurrent: () => boolean;
+}
+
+// Generation counter for one kind of load: starting a load aborts the previous
+// one, and only the latest load may apply its result
+export class MapLoadSequence {
+  private generation: number = 0;
+  private controller: AbortController | null = null;
+
+  start(): MapLoadTicket {
+    this.cancel();
+    const generation = this.generation;
+    const controller = new AbortController();
+    this.controller = controller;
+    return {
+      signal: controller.signal,
+      isCurrent: () =>
+        generation === this.generation && !controller.signal.aborted,
+    };
+  }
+
+  cancel(): void {
+    this.generation++;
+    this.controller?.abort();
+    this.controller = null;
+  }
+}
+
+export interface MapLoadErrorDescription {
+  title: string;
+  detail: string;
+  tips: string[];
+}
+
+function getHttpErrorTips(status: number): string[] {
+  if (status === 401 || status === 403) {
+    return [
+      "The file must be publicly accessible without signing in",
+      "Use direct download links (not Google Drive sharing links)",
+    ];
+  }
+  if (status === 404) {
+    return ["Check the URL for typos", "Check the file was not moved"];
+  }
+  return ["The server may be down; try again later"];
+}
+
+export function describeMapLoadError(
+  error: MapLoadError
+): MapLoadErrorDescription {
+  switch (error.kind) {
+    case "http":
+      return {
+        title: "The server returned an error",
+        detail: error.message,
+        tips: getHttpErrorTips(error.status),
+      };
+    case "cors":
+      return {
+        title: "The request was blocked",
+        detail: error.message,
+        tips: [
+          "The server must send an Access-Control-Allow-Origin header",
+          "Check the URL uses https and the host is reachable",
+        ],
+      };
+    case "timeout":
+      return {
+        title: "The request timed out",
+        detail: error.message,
+        tips: [
+          "Increase the timeout under Map Loading",
+          "Simplify the file or use vector tiles for large boundary sets",
+        ],
+      };
+    case "invalid":
+      return {
+        title: "The file has no usable features",
+        detail: error.message,
+        tips: [
+          "Open the file in a GIS tool and check its geometries",
+          "Coordinates must be WGS84 longitude / latitude",
+        ],
+      };
+    default:
+      return {
+        title: "The file could not be read",
+        detail: error.message,
+        tips: [
+          "Verify the URL returns GeoJSON, TopoJSON, a zipped Shapefile, KML or GPX",
+          "Check the base map format setting matches the file",
+        ],
+      };
+  }
+}
@@ -0,0 +1,111 @@
+"use strict";
+
+import * as L from "leaflet";
+
+// Centre, zoom and hidden layers saved in the "viewState" object
+export interface MapViewState {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+  hiddenLayers: string[];
+}
+
+export interface ToggleableLayer {
+  key: string;
+  label: string;
+  pane: string; // Map pane holding the layer, hidden while the layer is toggled off
+}
+
+// Read a saved view from the dataView objects, null when nothing has been saved yet
+export function parseMapViewState(viewState: any): MapViewState | null {
+  const latitude = Number(viewState?.latitude);
+  const longitude = Number(viewState?.longitude);
+  const zoom = Number(viewState?.zoom);
+  if (
+    viewState?.latitude === undefined ||
+    !isFinite(latitude) ||
+    !isFinite(longitude) ||
+    !isFinite(zoom)
+  ) {
+    return null;
+  }
+  return {
+    latitude,
+    longitude,
+    zoom,
+    hiddenLayers: parseHiddenLayers(viewState.hiddenLayers),
+  };
+}
+
+export function parseHiddenLayers(text: any): string[] {
+  return String(text || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key !== "");
+}
+
+// Views closer than a fraction of a degree count as the same, so a persisted
+// view echoed back by Power BI does not move the map again
+export function isSameMapView(
+  a: MapViewState,
+  b: MapViewState,
+  tolerance: number = 1e-6
+): boolean {
+  return (
+    Math.abs(a.latitude - b.latitude) < tolerance &&
+    Math.abs(a.longitude - b.longitude) < tolerance &&
+    a.zoom === b.zoom &&
+    [...a.hiddenLayers].sort().join(",") ===
+      [...b.hiddenLayers].sort().join(",")
+  );
+}
+
+// Checkbox list for showing and hiding the visual's own layers
+export class LayerToggleControl extends L.Control {
+  private container: HTMLElement;
+  private checkboxes: Map<string, HTMLInputElement> = new Map();
+
+  constructor(
+    options: L.ControlOptions,
+    layers: ToggleableLayer[],
+    private onToggle: (key: string, visible: boolean) => void
+  ) {
+    super(options);
+    this.container = L.DomUtil.create(
+      "div",
+      "leaflet-control-layers leaflet-control-layers-expanded layer-toggle-control"
+    );
+    layers.forEach((layer) => this.createToggle(layer));
+    L.DomEvent.disableClickPropagation(this.container);
+    L.DomEvent.disableScrollPropagation(this.container);
+  }
+
+  public onAdd(): HTMLElement {
+    return this.container;
+  }
+
+  public setVisible(key: string, visible: boolean): void {
+    const checkbox = this.checkboxes.get(key);
+    if (checkbox) {
+      checkbox.checked = visible;
+    }
+  }
+
+  private createToggle(layer: ToggleableLayer): void {
+    const label = L.DomUtil.create("label", "layer-toggle", this.container);
+    const checkbox = L.DomUtil.create(
+      "input",
+      "leaflet-control-layers-selector",
+      label
+    ) as HTMLInputElement;
+    checkbox.type = "checkbox";
+    checkbox.checked = true;
+    const text = L.DomUtil.create("span", "", label);
+    text.textContent = ` ${layer.label}`;
+
+    L.DomEvent.on(checkbox, "change", () =>
+      this.onToggle(layer.key, checkbox.checked)
+    );
+    this.checkboxes.set(layer.key, checkbox);
+  }
+}
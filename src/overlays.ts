@@ -0,0 +1,108 @@
+"use strict";
+
+import * as L from "leaflet";
+import { escapeHtml } from "./html";
+
+// "interactive": click for a tooltip, highlighted on hover; "tooltip": tooltip
+// while hovering only; "none": drawn for context, ignores the mouse
+export type OverlayInteraction = "interactive" | "tooltip" | "none";
+
+export interface OverlayDefinition {
+  name: string; // Unique among the overlays, as it labels the layers control entry
+  url: string;
+  topologyObject: string; // Object of a TopoJSON file to draw; empty uses its first object
+  style: L.PathOptions;
+  zOrder: number; // Higher overlays are drawn on top, all below the markers
+  minZoom: number;
+  maxZoom: number;
+  interaction: OverlayInteraction;
+  tooltipProperties: string[]; // Feature properties shown in the tooltip; empty shows all
+}
+
+const INTERACTIONS: OverlayInteraction[] = ["interactive", "tooltip", "none"];
+
+// Parse the overlay definitions, a JSON array such as
+// [{ "name": "Camps", "url": "https://...", "color": "#1B7A3E", "minZoom": 4 }].
+// Entries without a URL are skipped; invalid JSON yields no overlays. Repeated
+// names are numbered, e.g. "Camps (2)".
+export function parseOverlayDefinitions(text: string): OverlayDefinition[] {
+  let entries: any;
+  try {
+    entries = JSON.parse(text || "[]");
+  } catch (_) {
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const names = new Set<string>();
+  return entries
+    .filter((entry) => entry && typeof entry.url === "string" && entry.url)
+    .map((entry, index) => ({
+      name: toUniqueName(String(entry.name || `Overlay ${index + 1}`), names),
+      url: entry.url.trim(),
+      topologyObject: entry.topologyObject ? String(entry.topologyObject) : "",
+      style: {
+        color: String(entry.color || "#22294B"),
+        weight: toNumber(entry.weight, 1.5),
+        opacity: toNumber(entry.opacity, 1),
+        fillColor: String(entry.fillColor || entry.color || "#22294B"),
+        fillOpacity: toNumber(entry.fillOpacity, 0.2),
+        dashArray: entry.dashArray ? String(entry.dashArray) : undefined,
+      },
+      zOrder: Math.max(
+        0,
+        Math.min(99, Math.round(toNumber(entry.zOrder, index)))
+      ),
+      minZoom: toNumber(entry.minZoom, 0),
+      maxZoom: toNumber(entry.maxZoom, 22),
+      interaction: INTERACTIONS.includes(entry.interaction)
+        ? entry.interaction
+        : "tooltip",
+      tooltipProperties: Array.isArray(entry.tooltipProperties)
+        ? entry.tooltipProperties.map(String)
+        : [],
+    }));
+}
+
+function toUniqueName(name: string, names: Set<string>): string {
+  let unique = name;
+  for (let count = 2; names.has(unique); count++) {
+    unique = `${name} (${count})`;
+  }
+  names.add(unique);
+  return unique;
+}
+
+function toNumber(value: any, fallback: number): number {
+  const number = Number(value);
+  return value !== undefined && value !== null && isFinite(number)
+    ? number
+    : fallback;
+}
+
+// Tooltip rows in the markup of the marker tooltips, with the feature values escaped
+export function buildOverlayTooltipRows(
+  overlayName: string,
+  properties: { [name: string]: any },
+  tooltipProperties: string[]
+): string[] {
+  const names =
+    tooltipProperties.length > 0
+      ? tooltipProperties
+      : Object.keys(properties || {});
+  const rows = [tooltipRow("Layer", overlayName)];
+  names
+    .filter(
+      (name) => properties?.[name] !== undefined && properties[name] !== null
+    )
+    .forEach((name) => rows.push(tooltipRow(name, String(properties[name]))));
+  return rows;
+}
+
+function tooltipRow(name: string, value: string): string {
+  return `<div class="tooltip-row"><span class="field-name">${escapeHtml(
+    name
+  )}</span><span class="field-value">${escapeHtml(value)}</span></div>`;
+}
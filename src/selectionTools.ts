@@ -0,0 +1,134 @@
+"use strict";
+
+import * as L from "leaflet";
+import "leaflet-draw";
+
+const SHAPE_STYLE: L.PathOptions = {
+  color: "#22294B",
+  weight: 2,
+  dashArray: "4, 4",
+  fillColor: "#22294B",
+  fillOpacity: 0.1,
+};
+
+// Rectangle and polygon tools from leaflet-draw plus a freehand lasso. Each
+// finished shape is passed to the callback as a ring of [lng, lat] positions.
+export class SelectionTools {
+  private map: L.Map;
+  private onShape: (ring: [number, number][]) => void;
+  private drawControl: L.Control;
+  private lassoControl: L.Control;
+  private lassoButton: HTMLElement;
+  private lassoActive: boolean = false;
+  private lassoLatLngs: L.LatLng[] = [];
+  private lassoLine: L.Polyline | null = null;
+  private added: boolean = false;
+
+  constructor(map: L.Map, onShape: (ring: [number, number][]) => void) {
+    this.map = map;
+    this.onShape = onShape;
+
+    // leaflet-draw does not ship typings, so its control is created untyped
+    this.drawControl = new (L.Control as any).Draw({
+      position: "topright",
+      draw: {
+        polyline: false,
+        circle: false,
+        circlemarker: false,
+        marker: false,
+        rectangle: { shapeOptions: SHAPE_STYLE, showArea: false },
+        polygon: { shapeOptions: SHAPE_STYLE, showArea: false },
+      },
+      edit: false,
+    });
+
+    this.lassoControl = new L.Control({ position: "topright" });
+    this.lassoControl.onAdd = () => this.createLassoButton();
+
+    this.map.on("draw:created", (e: any) => {
+      const latLngs = e.layer.getLatLngs()[0] as L.LatLng[];
+      this.onShape(latLngs.map((latLng) => [latLng.lng, latLng.lat]));
+    });
+  }
+
+  public setEnabled(enabled: boolean): void {
+    if (enabled && !this.added) {
+      this.drawControl.addTo(this.map);
+      this.lassoControl.addTo(this.map);
+    } else if (!enabled && this.added) {
+      this.setLassoActive(false);
+      this.drawControl.remove();
+      this.lassoControl.remove();
+    }
+    this.added = enabled;
+  }
+
+  private createLassoButton(): HTMLElement {
+    const container = L.DomUtil.create("div", "leaflet-bar lasso-control");
+    this.lassoButton = L.DomUtil.create("a", "lasso-button", container);
+    this.lassoButton.setAttribute("href", "#");
+    this.lassoButton.setAttribute("title", "Lasso select");
+    this.lassoButton.setAttribute("role", "button");
+    this.lassoButton.textContent = "⟳";
+
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.on(this.lassoButton, "click", (e) => {
+      L.DomEvent.preventDefault(e);
+      this.setLassoActive(!this.lassoActive);
+    });
+    return container;
+  }
+
+  private setLassoActive(active: boolean): void {
+    this.lassoActive = active;
+    this.lassoButton?.classList.toggle("active", active);
+    this.map.getContainer().style.cursor = active ? "crosshair" : "";
+
+    if (active) {
+      this.map.dragging.disable();
+      this.map.on("mousedown", this.startLasso, this);
+    } else {
+      this.map.dragging.enable();
+      this.map.off("mousedown", this.startLasso, this);
+      this.map.off("mousemove", this.extendLasso, this);
+      L.DomEvent.off(
+        document.documentElement,
+        "mouseup",
+        this.finishLasso,
+        this
+      );
+      this.clearLassoLine();
+    }
+  }
+
+  private startLasso(e: L.LeafletMouseEvent): void {
+    this.lassoLatLngs = [e.latlng];
+    this.clearLassoLine();
+    this.lassoLine = L.polyline(this.lassoLatLngs, SHAPE_STYLE).addTo(this.map);
+    this.map.on("mousemove", this.extendLasso, this);
+    // Listened for on the document, so releasing the button outside the map still ends the lasso
+    L.DomEvent.on(document.documentElement, "mouseup", this.finishLasso, this);
+  }
+
+  private extendLasso(e: L.LeafletMouseEvent): void {
+    this.lassoLatLngs.push(e.latlng);
+    this.lassoLine?.setLatLngs(this.lassoLatLngs);
+  }
+
+  private finishLasso(): void {
+    const ring = this.lassoLatLngs.map(
+      (latLng) => [latLng.lng, latLng.lat] as [number, number]
+    );
+    this.setLassoActive(false);
+    if (ring.length >= 3) {
+      this.onShape(ring);
+    }
+  }
+
+  private clearLassoLine(): void {
+    if (this.lassoLine) {
+      this.map.removeLayer(this.lassoLine);
+      this.lassoLine = null;
+    }
+  }
+}
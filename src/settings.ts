@@ -84,24 +84,760 @@ class MapSettingsCard extends FormattingSettingsCard {
   baseMapUrl = new formattingSettings.TextInput({
     name: "baseMapUrl",
     displayName: "Base Map GeoJSON URL",
-    description: "Public URL to load base map GeoJSON data from",
+    description:
+      "Public URL of a GeoJSON, TopoJSON, zipped Shapefile, KML or GPX file, an MVT {z}/{x}/{y} tile endpoint or a PMTiles archive",
     value: "",
     placeholder: "https://example.com/map.geojson",
   });
 
+  baseMapFormat = new formattingSettings.ItemDropdown({
+    name: "baseMapFormat",
+    displayName: "Base map format",
+    items: [
+      { value: "auto", displayName: "Detect from URL" },
+      { value: "geojson", displayName: "GeoJSON" },
+      { value: "mvt", displayName: "Vector tiles (MVT)" },
+      { value: "pmtiles", displayName: "PMTiles archive" },
+      { value: "shapefile", displayName: "Zipped Shapefile" },
+      { value: "kml", displayName: "KML" },
+      { value: "gpx", displayName: "GPX" },
+    ],
+    value: { value: "auto", displayName: "Detect from URL" },
+  });
+
+  vectorTileSourceLayer = new formattingSettings.TextInput({
+    name: "vectorTileSourceLayer",
+    displayName: "Vector tile layer",
+    description:
+      "Layer of the vector tiles holding the admin boundaries; leave empty to draw every layer",
+    value: "",
+    placeholder: "admin2",
+  });
+
+  baseMapTopologyObject = new formattingSettings.TextInput({
+    name: "baseMapTopologyObject",
+    displayName: "Base map TopoJSON object",
+    description:
+      "Object of a TopoJSON base map to draw; leave empty to use its first object",
+    value: "",
+    placeholder: "countries",
+  });
+
   disputedBordersUrl = new formattingSettings.TextInput({
     name: "disputedBordersUrl",
     displayName: "Disputed Borders GeoJSON URL",
-    description: "Public URL to load disputed borders GeoJSON data from",
+    description:
+      "Public URL of the disputed borders as GeoJSON, TopoJSON, zipped Shapefile, KML or GPX",
     value: "",
     placeholder: "https://example.com/disputed-borders.geojson",
   });
 
+  disputedBordersTopologyObject = new formattingSettings.TextInput({
+    name: "disputedBordersTopologyObject",
+    displayName: "Disputed borders TopoJSON object",
+    description:
+      "Object of a TopoJSON disputed borders file to draw; leave empty to use its first object",
+    value: "",
+    placeholder: "disputed_borders",
+  });
+
+  tileUrlTemplate = new formattingSettings.TextInput({
+    name: "tileUrlTemplate",
+    displayName: "Tile layer URL template",
+    description:
+      "XYZ raster tile URL with {z}, {x} and {y} placeholders, and {s} for a subdomain",
+    value: "",
+    placeholder: "https://{s}.tiles.example.com/{z}/{x}/{y}.png",
+  });
+
+  tileSubdomains = new formattingSettings.TextInput({
+    name: "tileSubdomains",
+    displayName: "Tile subdomains",
+    description:
+      "Values substituted for {s}: single letters such as abc, or a comma-separated list",
+    value: "abc",
+    placeholder: "abc",
+  });
+
+  tileAttribution = new formattingSettings.TextInput({
+    name: "tileAttribution",
+    displayName: "Tile attribution",
+    value: "",
+    placeholder: "© Tile provider",
+  });
+
+  tileOpacity = new formattingSettings.NumUpDown({
+    name: "tileOpacity",
+    displayName: "Tile opacity (%)",
+    value: 100,
+  });
+
+  tileMode = new formattingSettings.ItemDropdown({
+    name: "tileMode",
+    displayName: "Tiles and GeoJSON base map",
+    description:
+      "Under the GeoJSON base map, its regions are drawn as outlines only so the tiles stay visible",
+    items: [
+      { value: "under", displayName: "Tiles under the GeoJSON base map" },
+      {
+        value: "instead",
+        displayName: "Tiles instead of the GeoJSON base map",
+      },
+    ],
+    value: { value: "under", displayName: "Tiles under the GeoJSON base map" },
+  });
+
+  joinProperty = new formattingSettings.TextInput({
+    name: "joinProperty",
+    displayName: "Join property",
+    description:
+      "Base map feature property matched against the Admin Code of the data",
+    value: "gaul_code",
+    placeholder: "gaul_code",
+  });
+
+  alternateJoinKeys = new formattingSettings.TextInput({
+    name: "alternateJoinKeys",
+    displayName: "Alternate join keys",
+    description:
+      "Comma-separated feature properties tried when the join property does not match",
+    value: "",
+    placeholder: "iso3_code,iso_a2,name",
+  });
+
+  locationDelimiter = new formattingSettings.TextInput({
+    name: "locationDelimiter",
+    displayName: "Location field delimiter",
+    description: "Character separating the values in the combined Data field",
+    value: ",",
+    placeholder: ",",
+  });
+
+  locationFieldSchema = new formattingSettings.TextInput({
+    name: "locationFieldSchema",
+    displayName: "Location field schema",
+    description:
+      "Pipe-separated name of each position in the Data field. Known names are refId, lat, lng, admin, obs and country; any other name is shown in the tooltip. Leave empty to infer the layout from the number of values",
+    value: "",
+    placeholder: "refId|lat|lng|admin|obs|country|status",
+  });
+
   name: string = "mapSettings";
   displayName: string = "Map Settings";
   slices: Array<FormattingSettingsSlice> = [
     this.baseMapUrl,
+    this.baseMapFormat,
+    this.vectorTileSourceLayer,
+    this.baseMapTopologyObject,
     this.disputedBordersUrl,
+    this.disputedBordersTopologyObject,
+    this.tileUrlTemplate,
+    this.tileSubdomains,
+    this.tileAttribution,
+    this.tileOpacity,
+    this.tileMode,
+    this.joinProperty,
+    this.alternateJoinKeys,
+    this.locationDelimiter,
+    this.locationFieldSchema,
+  ];
+}
+
+/**
+ * Choropleth Settings Card
+ */
+class ChoroplethSettingsCard extends FormattingSettingsCard {
+  aggregation = new formattingSettings.ItemDropdown({
+    name: "aggregation",
+    displayName: "Aggregation",
+    description:
+      "How the rows in each region are combined into the value that colours it",
+    items: [
+      { value: "sum", displayName: "Sum of Value" },
+      { value: "mean", displayName: "Mean of Value" },
+      { value: "max", displayName: "Max of Value" },
+      { value: "count", displayName: "Count of rows" },
+      { value: "distinctCount", displayName: "Distinct count of Obs IDs" },
+    ],
+    value: { value: "sum", displayName: "Sum of Value" },
+  });
+
+  colorRamp = new formattingSettings.ItemDropdown({
+    name: "colorRamp",
+    displayName: "Colour ramp",
+    description: "Ramp used to colour regions by the Value field",
+    items: [
+      { value: "sequential", displayName: "Sequential (min to max)" },
+      { value: "diverging", displayName: "Diverging (min to mid to max)" },
+      { value: "blues", displayName: "Blues" },
+      { value: "greens", displayName: "Greens" },
+      { value: "oranges", displayName: "Oranges" },
+      { value: "viridis", displayName: "Viridis" },
+      { value: "rdbu", displayName: "Blue - Red (diverging)" },
+      { value: "rdylgn", displayName: "Red - Yellow - Green (diverging)" },
+    ],
+    value: { value: "sequential", displayName: "Sequential (min to max)" },
+  });
+
+  minColor = new formattingSettings.ColorPicker({
+    name: "minColor",
+    displayName: "Minimum colour",
+    value: { value: "#DCE3E8" },
+  });
+
+  midColor = new formattingSettings.ColorPicker({
+    name: "midColor",
+    displayName: "Middle colour",
+    description: "Used by the diverging ramp",
+    value: { value: "#F9B112" },
+  });
+
+  maxColor = new formattingSettings.ColorPicker({
+    name: "maxColor",
+    displayName: "Maximum colour",
+    value: { value: "#455E6F" },
+  });
+
+  noDataColor = new formattingSettings.ColorPicker({
+    name: "noDataColor",
+    displayName: "No data colour",
+    description: "Fill for matched regions without a value",
+    value: { value: "#CBCBCB" },
+  });
+
+  classificationMethod = new formattingSettings.ItemDropdown({
+    name: "classificationMethod",
+    displayName: "Classification",
+    description: "How region values are binned into colour classes",
+    items: [
+      { value: "continuous", displayName: "Continuous" },
+      { value: "quantile", displayName: "Quantile" },
+      { value: "equalInterval", displayName: "Equal interval" },
+      { value: "jenks", displayName: "Natural breaks (Jenks)" },
+      { value: "standardDeviation", displayName: "Standard deviation" },
+      { value: "manual", displayName: "Manual breaks" },
+    ],
+    value: { value: "continuous", displayName: "Continuous" },
+  });
+
+  classCount = new formattingSettings.NumUpDown({
+    name: "classCount",
+    displayName: "Number of classes",
+    description: "Between 2 and 9 classes",
+    value: 5,
+  });
+
+  manualBreaks = new formattingSettings.TextInput({
+    name: "manualBreaks",
+    displayName: "Manual breaks",
+    description:
+      "Comma-separated class boundaries used by the manual classification",
+    value: "",
+    placeholder: "10, 50, 100",
+  });
+
+  name: string = "choroplethSettings";
+  displayName: string = "Choropleth";
+  slices: Array<FormattingSettingsSlice> = [
+    this.aggregation,
+    this.colorRamp,
+    this.minColor,
+    this.midColor,
+    this.maxColor,
+    this.noDataColor,
+    this.classificationMethod,
+    this.classCount,
+    this.manualBreaks,
+  ];
+}
+
+/**
+ * Legend Settings Card
+ */
+class LegendSettingsCard extends FormattingSettingsCard {
+  show = new formattingSettings.ToggleSwitch({
+    name: "show",
+    displayName: "Show legend",
+    value: true,
+  });
+
+  position = new formattingSettings.ItemDropdown({
+    name: "position",
+    displayName: "Position",
+    items: [
+      { value: "topleft", displayName: "Top left" },
+      { value: "topright", displayName: "Top right" },
+      { value: "bottomleft", displayName: "Bottom left" },
+      { value: "bottomright", displayName: "Bottom right" },
+    ],
+    value: { value: "bottomleft", displayName: "Bottom left" },
+  });
+
+  title = new formattingSettings.TextInput({
+    name: "title",
+    displayName: "Title",
+    value: "Legend",
+    placeholder: "Legend",
+  });
+
+  name: string = "legendSettings";
+  displayName: string = "Legend";
+  slices: Array<FormattingSettingsSlice> = [
+    this.show,
+    this.position,
+    this.title,
+  ];
+}
+
+/**
+ * Selection Tools Settings Card
+ */
+class SelectionSettingsCard extends FormattingSettingsCard {
+  showTools = new formattingSettings.ToggleSwitch({
+    name: "showTools",
+    displayName: "Show selection tools",
+    description: "Rectangle, polygon and lasso tools for selecting markers",
+    value: true,
+  });
+
+  includeRegions = new formattingSettings.ToggleSwitch({
+    name: "includeRegions",
+    displayName: "Select regions in shape",
+    description:
+      "Also select choropleth regions whose centre falls inside the drawn shape",
+    value: false,
+  });
+
+  name: string = "selectionSettings";
+  displayName: string = "Selection Tools";
+  slices: Array<FormattingSettingsSlice> = [
+    this.showTools,
+    this.includeRegions,
+  ];
+}
+
+/**
+ * Map View Filter Settings Card
+ */
+class ViewFilterSettingsCard extends FormattingSettingsCard {
+  enabled = new formattingSettings.ToggleSwitch({
+    name: "enabled",
+    displayName: "Filter by map view",
+    description:
+      "Show a toggle that filters the report to the data visible on the map",
+    value: false,
+  });
+
+  filterOn = new formattingSettings.ItemDropdown({
+    name: "filterOn",
+    displayName: "Filter on",
+    items: [
+      { value: "coordinates", displayName: "Latitude / Longitude" },
+      { value: "adminCodes", displayName: "Admin codes in view" },
+    ],
+    value: { value: "coordinates", displayName: "Latitude / Longitude" },
+  });
+
+  name: string = "viewFilterSettings";
+  displayName: string = "Map View Filter";
+  slices: Array<FormattingSettingsSlice> = [this.enabled, this.filterOn];
+}
+
+/**
+ * Map View Settings Card
+ */
+class ViewSettingsCard extends FormattingSettingsCard {
+  initialView = new formattingSettings.ItemDropdown({
+    name: "initialView",
+    displayName: "Initial view",
+    items: [
+      { value: "fitData", displayName: "Fit to data bounds" },
+      { value: "fitSelectedRegion", displayName: "Fit to selected region" },
+      { value: "fixed", displayName: "Fixed" },
+    ],
+    value: { value: "fixed", displayName: "Fixed" },
+  });
+
+  fixedLatitude = new formattingSettings.NumUpDown({
+    name: "fixedLatitude",
+    displayName: "Fixed latitude",
+    value: 20,
+  });
+
+  fixedLongitude = new formattingSettings.NumUpDown({
+    name: "fixedLongitude",
+    displayName: "Fixed longitude",
+    value: 0,
+  });
+
+  fixedZoom = new formattingSettings.NumUpDown({
+    name: "fixedZoom",
+    displayName: "Fixed zoom",
+    value: 2,
+  });
+
+  rememberView = new formattingSettings.ToggleSwitch({
+    name: "rememberView",
+    displayName: "Remember map view",
+    description:
+      "Save the centre, zoom and layer visibility with the report and restore them on load",
+    value: true,
+  });
+
+  showLayerToggles = new formattingSettings.ToggleSwitch({
+    name: "showLayerToggles",
+    displayName: "Show layer toggles",
+    value: true,
+  });
+
+  name: string = "viewSettings";
+  displayName: string = "Map View";
+  slices: Array<FormattingSettingsSlice> = [
+    this.initialView,
+    this.fixedLatitude,
+    this.fixedLongitude,
+    this.fixedZoom,
+    this.rememberView,
+    this.showLayerToggles,
+  ];
+}
+
+/**
+ * Zoom Settings Card
+ */
+class ZoomSettingsCard extends FormattingSettingsCard {
+  minZoom = new formattingSettings.NumUpDown({
+    name: "minZoom",
+    displayName: "Minimum zoom",
+    value: 1,
+  });
+
+  maxZoom = new formattingSettings.NumUpDown({
+    name: "maxZoom",
+    displayName: "Maximum zoom",
+    description: "Clustered pins separate at this zoom level",
+    value: 5,
+  });
+
+  scrollWheelZoom = new formattingSettings.ToggleSwitch({
+    name: "scrollWheelZoom",
+    displayName: "Scroll wheel zoom",
+    value: true,
+  });
+
+  doubleClick = new formattingSettings.ItemDropdown({
+    name: "doubleClick",
+    displayName: "Double-click",
+    items: [
+      { value: "resetView", displayName: "Reset view" },
+      { value: "zoomIn", displayName: "Zoom in" },
+      { value: "none", displayName: "Do nothing" },
+    ],
+    value: { value: "resetView", displayName: "Reset view" },
+  });
+
+  boxZoom = new formattingSettings.ToggleSwitch({
+    name: "boxZoom",
+    displayName: "Shift-drag box zoom",
+    value: true,
+  });
+
+  name: string = "zoomSettings";
+  displayName: string = "Zoom";
+  slices: Array<FormattingSettingsSlice> = [
+    this.minZoom,
+    this.maxZoom,
+    this.scrollWheelZoom,
+    this.doubleClick,
+    this.boxZoom,
+  ];
+}
+
+/**
+ * Overlay Layers Settings Card
+ */
+class OverlaySettingsCard extends FormattingSettingsCard {
+  definitions = new formattingSettings.TextArea({
+    name: "definitions",
+    displayName: "Overlay definitions (JSON)",
+    description:
+      'JSON array of overlays, e.g. [{"name": "Camps", "url": "https://...", "color": "#1B7A3E", "zOrder": 1, "minZoom": 4, "maxZoom": 12, "interaction": "tooltip"}]. interaction is "interactive", "tooltip" or "none". topologyObject picks the object of a TopoJSON file; repeated names are numbered.',
+    placeholder: "[]",
+    value: "",
+  });
+
+  showLayerControl = new formattingSettings.ToggleSwitch({
+    name: "showLayerControl",
+    displayName: "Show overlay switcher",
+    value: true,
+  });
+
+  name: string = "overlaySettings";
+  displayName: string = "Overlay Layers";
+  slices: Array<FormattingSettingsSlice> = [
+    this.definitions,
+    this.showLayerControl,
+  ];
+}
+
+/**
+ * Map Cache Settings Card
+ */
+class CacheSettingsCard extends FormattingSettingsCard {
+  enabled = new formattingSettings.ToggleSwitch({
+    name: "enabled",
+    displayName: "Cache map files",
+    description:
+      "Keep downloaded base maps, disputed borders and overlays in the browser and draw them from there",
+    value: true,
+  });
+
+  maxAgeHours = new formattingSettings.NumUpDown({
+    name: "maxAgeHours",
+    displayName: "Max age (hours)",
+    description:
+      "Older cached files are still drawn, then checked against the server in the background",
+    value: 24,
+  });
+
+  clearCache = new formattingSettings.ToggleSwitch({
+    name: "clearCache",
+    displayName: "Clear cached maps",
+    description:
+      "Switch on to empty the cache and download the maps again; the switch turns itself back off",
+    value: false,
+  });
+
+  name: string = "cacheSettings";
+  displayName: string = "Map Cache";
+  slices: Array<FormattingSettingsSlice> = [
+    this.enabled,
+    this.maxAgeHours,
+    this.clearCache,
+  ];
+}
+
+/**
+ * Map Loading Settings Card
+ */
+class LoadSettingsCard extends FormattingSettingsCard {
+  timeoutSeconds = new formattingSettings.NumUpDown({
+    name: "timeoutSeconds",
+    displayName: "Timeout (seconds)",
+    description: "Each download attempt is abandoned after this long",
+    value: 30,
+  });
+
+  retries = new formattingSettings.NumUpDown({
+    name: "retries",
+    displayName: "Retries",
+    description:
+      "Attempts after a timeout, network failure or server error, waiting twice as long each time",
+    value: 2,
+  });
+
+  name: string = "loadSettings";
+  displayName: string = "Map Loading";
+  slices: Array<FormattingSettingsSlice> = [this.timeoutSeconds, this.retries];
+}
+
+/**
+ * Diagnostics Settings Card
+ */
+class DiagnosticsSettingsCard extends FormattingSettingsCard {
+  panelMode = new formattingSettings.ItemDropdown({
+    name: "panelMode",
+    displayName: "Diagnostics panel",
+    items: [
+      { value: "errors", displayName: "Show on errors" },
+      { value: "always", displayName: "Always show" },
+      { value: "never", displayName: "Never show" },
+    ],
+    value: { value: "errors", displayName: "Show on errors" },
+  });
+
+  showCoverageBadge = new formattingSettings.ToggleSwitch({
+    name: "showCoverageBadge",
+    displayName: "Unmatched rows warning",
+    description:
+      "Show a warning badge when too many rows have an admin code with no matching region",
+    value: false,
+  });
+
+  unmatchedThreshold = new formattingSettings.NumUpDown({
+    name: "unmatchedThreshold",
+    displayName: "Warn above unmatched rows (%)",
+    value: 10,
+  });
+
+  name: string = "diagnosticsSettings";
+  displayName: string = "Diagnostics";
+  slices: Array<FormattingSettingsSlice> = [
+    this.panelMode,
+    this.showCoverageBadge,
+    this.unmatchedThreshold,
+  ];
+}
+
+/**
+ * Spatial Join Settings Card
+ */
+class SpatialJoinSettingsCard extends FormattingSettingsCard {
+  enabled = new formattingSettings.ToggleSwitch({
+    name: "enabled",
+    displayName: "Derive admin codes from points",
+    description:
+      "Rows with a latitude and longitude but no admin code or country take them from the base map region containing the point. Not available with vector tile base maps",
+    value: false,
+  });
+
+  countryProperty = new formattingSettings.TextInput({
+    name: "countryProperty",
+    displayName: "Country name property",
+    description:
+      "Base map property holding the country name; leave empty to try ADM0_NAME, NAME_0, country, admin and name",
+    placeholder: "ADM0_NAME",
+    value: "",
+  });
+
+  name: string = "spatialJoinSettings";
+  displayName: string = "Spatial Join";
+  slices: Array<FormattingSettingsSlice> = [this.enabled, this.countryProperty];
+}
+
+/**
+ * Bubble Settings Card
+ */
+class BubbleSettingsCard extends FormattingSettingsCard {
+  show = new formattingSettings.ToggleSwitch({
+    name: "show",
+    displayName: "Show bubbles",
+    description:
+      "Draw circles sized by the Bubble Size field, or by the number of rows when it is empty",
+    value: false,
+  });
+
+  placement = new formattingSettings.ItemDropdown({
+    name: "placement",
+    displayName: "Placement",
+    items: [
+      { value: "points", displayName: "Row coordinates" },
+      { value: "centroids", displayName: "Region centroids" },
+    ],
+    value: { value: "points", displayName: "Row coordinates" },
+  });
+
+  scaling = new formattingSettings.ItemDropdown({
+    name: "scaling",
+    displayName: "Scaling",
+    items: [
+      { value: "sqrt", displayName: "Square root (area)" },
+      { value: "linear", displayName: "Linear (radius)" },
+    ],
+    value: { value: "sqrt", displayName: "Square root (area)" },
+  });
+
+  minRadius = new formattingSettings.NumUpDown({
+    name: "minRadius",
+    displayName: "Minimum radius (px)",
+    value: 4,
+  });
+
+  maxRadius = new formattingSettings.NumUpDown({
+    name: "maxRadius",
+    displayName: "Maximum radius (px)",
+    value: 30,
+  });
+
+  color = new formattingSettings.ColorPicker({
+    name: "color",
+    displayName: "Colour",
+    value: { value: "#F9B112" },
+  });
+
+  name: string = "bubbleSettings";
+  displayName: string = "Bubbles";
+  slices: Array<FormattingSettingsSlice> = [
+    this.show,
+    this.placement,
+    this.scaling,
+    this.minRadius,
+    this.maxRadius,
+    this.color,
+  ];
+}
+
+/**
+ * Heatmap Settings Card
+ */
+class HeatmapSettingsCard extends FormattingSettingsCard {
+  renderMode = new formattingSettings.ItemDropdown({
+    name: "renderMode",
+    displayName: "Show observations as",
+    items: [
+      { value: "pins", displayName: "Clustered pins" },
+      { value: "heatmap", displayName: "Heatmap" },
+    ],
+    value: { value: "pins", displayName: "Clustered pins" },
+  });
+
+  radius = new formattingSettings.NumUpDown({
+    name: "radius",
+    displayName: "Radius (px)",
+    value: 25,
+  });
+
+  blur = new formattingSettings.NumUpDown({
+    name: "blur",
+    displayName: "Blur (px)",
+    value: 15,
+  });
+
+  maxIntensity = new formattingSettings.NumUpDown({
+    name: "maxIntensity",
+    displayName: "Maximum intensity",
+    description:
+      "Weight at which a point reaches the hottest colour; 0 uses the heaviest point",
+    value: 0,
+  });
+
+  gradient = new formattingSettings.ItemDropdown({
+    name: "gradient",
+    displayName: "Gradient",
+    items: [
+      { value: "classic", displayName: "Blue - Lime - Red" },
+      { value: "oranges", displayName: "Oranges" },
+      { value: "viridis", displayName: "Viridis" },
+      { value: "blues", displayName: "Blues" },
+      { value: "sequential", displayName: "Custom (low to high colour)" },
+    ],
+    value: { value: "classic", displayName: "Blue - Lime - Red" },
+  });
+
+  lowColor = new formattingSettings.ColorPicker({
+    name: "lowColor",
+    displayName: "Low colour",
+    description: "Used by the custom gradient",
+    value: { value: "#F9B112" },
+  });
+
+  highColor = new formattingSettings.ColorPicker({
+    name: "highColor",
+    displayName: "High colour",
+    description: "Used by the custom gradient",
+    value: { value: "#C0392B" },
+  });
+
+  name: string = "heatmapSettings";
+  displayName: string = "Heatmap";
+  slices: Array<FormattingSettingsSlice> = [
+    this.renderMode,
+    this.radius,
+    this.blur,
+    this.maxIntensity,
+    this.gradient,
+    this.lowColor,
+    this.highColor,
   ];
 }
 
@@ -113,6 +849,35 @@ export class VisualFormattingSettingsModel extends FormattingSettingsModel {
   // Create formatting settings model formatting cards
   dataPointCard = new DataPointCardSettings();
   mapSettingsCard = new MapSettingsCard();
+  choroplethSettingsCard = new ChoroplethSettingsCard();
+  legendSettingsCard = new LegendSettingsCard();
+  selectionSettingsCard = new SelectionSettingsCard();
+  viewFilterSettingsCard = new ViewFilterSettingsCard();
+  viewSettingsCard = new ViewSettingsCard();
+  zoomSettingsCard = new ZoomSettingsCard();
+  overlaySettingsCard = new OverlaySettingsCard();
+  cacheSettingsCard = new CacheSettingsCard();
+  loadSettingsCard = new LoadSettingsCard();
+  diagnosticsSettingsCard = new DiagnosticsSettingsCard();
+  spatialJoinSettingsCard = new SpatialJoinSettingsCard();
+  bubbleSettingsCard = new BubbleSettingsCard();
+  heatmapSettingsCard = new HeatmapSettingsCard();
 
-  cards = [this.dataPointCard, this.mapSettingsCard];
+  cards = [
+    this.dataPointCard,
+    this.mapSettingsCard,
+    this.choroplethSettingsCard,
+    this.legendSettingsCard,
+    this.selectionSettingsCard,
+    this.viewFilterSettingsCard,
+    this.viewSettingsCard,
+    this.zoomSettingsCard,
+    this.overlaySettingsCard,
+    this.cacheSettingsCard,
+    this.loadSettingsCard,
+    this.diagnosticsSettingsCard,
+    this.spatialJoinSettingsCard,
+    this.bubbleSettingsCard,
+    this.heatmapSettingsCard,
+  ];
 }
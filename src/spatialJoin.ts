@@ -0,0 +1,164 @@
+"use strict";
+
+import { DiagnosticsSection } from "./diagnostics";
+import { isPointInRing } from "./geometry";
+
+// Grid cells per side of the index; the cell size follows the extent of the features
+const GRID_SIZE = 256;
+// Polygons whose box covers more cells are kept in one list tested for every point,
+// so a few large polygons do not fill most of the grid
+const MAX_CELLS_PER_POLYGON = 1024;
+
+interface IndexedPolygon {
+  feature: any;
+  rings: [number, number][][]; // Outer ring first, then holes
+  bounds: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+}
+
+function getPolygons(geometry: any): [number, number][][][] {
+  if (geometry?.type === "Polygon") {
+    return [geometry.coordinates];
+  }
+  if (geometry?.type === "MultiPolygon") {
+    return geometry.coordinates;
+  }
+  if (geometry?.type === "GeometryCollection") {
+    return (geometry.geometries || []).flatMap(getPolygons);
+  }
+  return [];
+}
+
+function getRingBounds(
+  ring: [number, number][]
+): [number, number, number, number] {
+  let minLng = Infinity;
+  let minLat = Infinity;
+  let maxLng = -Infinity;
+  let maxLat = -Infinity;
+  ring.forEach(([lng, lat]) => {
+    minLng = Math.min(minLng, lng);
+    minLat = Math.min(minLat, lat);
+    maxLng = Math.max(maxLng, lng);
+    maxLat = Math.max(maxLat, lat);
+  });
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+// Uniform grid over the bounding boxes of polygon features, so a point is only
+// tested against the few polygons whose boxes share its cell
+export class PolygonIndex {
+  private polygons: IndexedPolygon[] = [];
+  private cells: Map<number, number[]> = new Map(); // Cell number -> indices into polygons
+  private largePolygons: number[] = []; // Indices of polygons over MAX_CELLS_PER_POLYGON cells
+  private originLng: number = 0;
+  private originLat: number = 0;
+  private cellSize: number = 1;
+
+  constructor(features: any[]) {
+    features.forEach((feature) =>
+      getPolygons(feature?.geometry)
+        .filter((rings) => Array.isArray(rings?.[0]) && rings[0].length >= 3)
+        .forEach((rings) =>
+          this.polygons.push({
+            feature,
+            rings,
+            bounds: getRingBounds(rings[0]),
+          })
+        )
+    );
+    if (this.polygons.length === 0) {
+      return;
+    }
+
+    const [minLng, minLat, maxLng, maxLat] = this.polygons.reduce(
+      (extent, { bounds }) => [
+        Math.min(extent[0], bounds[0]),
+        Math.min(extent[1], bounds[1]),
+        Math.max(extent[2], bounds[2]),
+        Math.max(extent[3], bounds[3]),
+      ],
+      [Infinity, Infinity, -Infinity, -Infinity]
+    );
+    this.originLng = minLng;
+    this.originLat = minLat;
+    this.cellSize =
+      Math.max(maxLng - minLng, maxLat - minLat, 1e-6) / GRID_SIZE;
+
+    this.polygons.forEach((polygon, index) => {
+      const [minX, minY] = this.getCell(polygon.bounds[0], polygon.bounds[1]);
+      const [maxX, maxY] = this.getCell(polygon.bounds[2], polygon.bounds[3]);
+      if ((maxX - minX + 1) * (maxY - minY + 1) > MAX_CELLS_PER_POLYGON) {
+        this.largePolygons.push(index);
+        return;
+      }
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          const key = y * (GRID_SIZE + 1) + x;
+          const cell = this.cells.get(key);
+          if (cell) {
+            cell.push(index);
+          } else {
+            this.cells.set(key, [index]);
+          }
+        }
+      }
+    });
+  }
+
+  private getCell(lng: number, lat: number): [number, number] {
+    const clamp = (value: number) =>
+      Math.max(0, Math.min(GRID_SIZE, Math.floor(value)));
+    return [
+      clamp((lng - this.originLng) / this.cellSize),
+      clamp((lat - this.originLat) / this.cellSize),
+    ];
+  }
+
+  // The first feature whose polygon contains the point (inside the outer ring, outside every hole)
+  public findFeature(lng: number, lat: number): any | null {
+    if (this.polygons.length === 0) {
+      return null;
+    }
+    const [x, y] = this.getCell(lng, lat);
+    const cell = this.cells.get(y * (GRID_SIZE + 1) + x) || [];
+    // In index order, so the first matching feature wins wherever it was kept
+    const candidates =
+      this.largePolygons.length > 0
+        ? [...cell, ...this.largePolygons].sort((a, b) => a - b)
+        : cell;
+    for (const index of candidates) {
+      const { feature, rings, bounds } = this.polygons[index];
+      if (
+        lng < bounds[0] ||
+        lng > bounds[2] ||
+        lat < bounds[1] ||
+        lat > bounds[3]
+      ) {
+        continue;
+      }
+      if (
+        isPointInRing([lng, lat], rings[0]) &&
+        !rings.slice(1).some((hole) => isPointInRing([lng, lat], hole))
+      ) {
+        return feature;
+      }
+    }
+    return null;
+  }
+}
+
+export function getSpatialJoinUnavailableSection(): DiagnosticsSection {
+  return {
+    title: "Spatial join",
+    rows: [
+      {
+        label: "Status",
+        value: "Not available with vector tiles",
+        status: "warning",
+      },
+    ],
+    notes: [
+      "Points are matched to regions of a GeoJSON, TopoJSON, Shapefile, KML or GPX base map only, so points without an admin code stay unmatched",
+    ],
+  };
+}
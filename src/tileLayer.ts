@@ -0,0 +1,44 @@
+"use strict";
+
+import * as L from "leaflet";
+
+export interface RasterTileOptions {
+  urlTemplate: string;
+  subdomains: string;
+  attribution: string;
+  opacity: number; // 0 to 1
+}
+
+// A template needs {z}, {x} and {y} (or the TMS-style {-y}) placeholders
+export function isTileUrlTemplate(template: string): boolean {
+  return (
+    /\{z\}/.test(template) && /\{x\}/.test(template) && /\{-?y\}/.test(template)
+  );
+}
+
+// Subdomains are either single letters ("abc") or a comma-separated list ("t0,t1,t2")
+export function parseSubdomains(text: string): string | string[] {
+  const value = (text || "").trim();
+  if (value.includes(",")) {
+    return value
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => part !== "");
+  }
+  return value || "abc";
+}
+
+// XYZ raster tiles from any server; {s} picks a subdomain and {-y} flips the row for TMS servers
+export function createRasterTileLayer(
+  options: RasterTileOptions
+): L.TileLayer | null {
+  const urlTemplate = (options.urlTemplate || "").trim();
+  if (!isTileUrlTemplate(urlTemplate)) {
+    return null;
+  }
+  return L.tileLayer(urlTemplate, {
+    subdomains: parseSubdomains(options.subdomains),
+    attribution: options.attribution || undefined,
+    opacity: Math.max(0, Math.min(1, options.opacity)),
+  });
+}
@@ -0,0 +1,42 @@
+"use strict";
+
+import { Feature, FeatureCollection } from "geojson";
+import { feature } from "topojson-client";
+import { GeometryObject, Topology } from "topojson-specification";
+
+export function isTopology(data: any): boolean {
+  return data?.type === "Topology" && !!data.objects;
+}
+
+// Convert the named object of a topology, or its first object when no name is given
+export function topologyToFeatureCollection(
+  topology: Topology,
+  objectName: string
+): FeatureCollection {
+  const names = Object.keys(topology.objects);
+  const name = objectName.trim() || names[0];
+  const object = topology.objects[name] as GeometryObject;
+  if (!object) {
+    throw new Error(
+      `TopoJSON has no object "${name}" (available: ${names.join(", ")})`
+    );
+  }
+  const result = feature(topology, object) as Feature | FeatureCollection;
+  return result.type === "FeatureCollection"
+    ? result
+    : { type: "FeatureCollection", features: [result] };
+}
+
+// Accept a GeoJSON FeatureCollection or a TopoJSON Topology from a map URL
+export function toFeatureCollection(
+  data: any,
+  topologyObjectName: string = ""
+): FeatureCollection {
+  if (isTopology(data)) {
+    return topologyToFeatureCollection(data, topologyObjectName);
+  }
+  if (!data?.type || !data.features) {
+    throw new Error("Invalid GeoJSON format - missing type or features");
+  }
+  return data as FeatureCollection;
+}
@@ -0,0 +1,133 @@
+"use strict";
+
+import * as L from "leaflet";
+import "leaflet.vectorgrid";
+import Pbf from "pbf";
+import { VectorTile } from "@mapbox/vector-tile";
+import { PMTiles } from "pmtiles";
+
+export type VectorTileSourceType = "mvt" | "pmtiles";
+
+export interface VectorTileBaseMapOptions {
+  pane: string;
+  sourceLayer: string; // Only draw this layer of each tile; empty draws every layer
+  style: (properties: any) => L.PathOptions;
+}
+
+// Vector tile base map that can restyle the features it has already drawn
+export interface VectorTileBaseMap extends L.Layer {
+  restyle(): void;
+}
+
+// A .pmtiles file is a single archive; .pbf / .mvt templates are MVT endpoints
+export function detectVectorTileSource(
+  url: string
+): VectorTileSourceType | null {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (path.endsWith(".pmtiles")) {
+    return "pmtiles";
+  }
+  if (/\{z\}/.test(url) && /\.(pbf|mvt)$/.test(path)) {
+    return "mvt";
+  }
+  return null;
+}
+
+// Decode a tile into the { layers: { name: { extent, features } } } shape VectorGrid draws from
+function decodeVectorTile(data: ArrayBuffer, sourceLayer: string): any {
+  const tile = new VectorTile(new Pbf(new Uint8Array(data)));
+  const layers: { [name: string]: any } = {};
+  Object.keys(tile.layers)
+    .filter((name) => !sourceLayer || name === sourceLayer)
+    .forEach((name) => {
+      const layer = tile.layers[name];
+      const features = [];
+      for (let i = 0; i < layer.length; i++) {
+        const feature: any = layer.feature(i);
+        feature.geometry = feature.loadGeometry();
+        features.push(feature);
+      }
+      layers[name] = { extent: layer.extent, features };
+    });
+  return { layers };
+}
+
+// leaflet.vectorgrid ships no class typings usable with `extends`, so the
+// tile source is plugged in with Leaflet's own extend()
+const VectorTileGrid = (L as any).VectorGrid.extend({
+  initialize: function (
+    loadTile: (coords: L.Coords) => Promise<ArrayBuffer | null>,
+    options: any
+  ) {
+    this._loadTile = loadTile;
+    (L as any).VectorGrid.prototype.initialize.call(this, options);
+  },
+
+  _getVectorTilePromise: function (coords: L.Coords) {
+    return this._loadTile(coords)
+      .then((data: ArrayBuffer | null) =>
+        data ? decodeVectorTile(data, this.options.sourceLayer) : { layers: {} }
+      )
+      .catch(() => ({ layers: {} }))
+      .then((vectorTile: any) => {
+        // Every source layer shares the one style function
+        Object.keys(vectorTile.layers).forEach((name) => {
+          this.options.vectorTileLayerStyles[name] = this.options.featureStyle;
+        });
+        return vectorTile;
+      });
+  },
+
+  // Re-run the style function on every feature of the loaded tiles
+  restyle: function () {
+    Object.keys(this._vectorTiles).forEach((tileKey) => {
+      const tile = this._vectorTiles[tileKey];
+      Object.keys(tile._features).forEach((id) => {
+        const { layerName, feature } = tile._features[id];
+        this._updateStyles(
+          feature,
+          tile,
+          this.options.vectorTileLayerStyles[layerName]
+        );
+      });
+    });
+  },
+});
+
+// Interactive base map drawn from an MVT {z}/{x}/{y} endpoint or a PMTiles archive.
+// Click events carry the clicked feature's properties on e.layer.properties.
+export function createVectorTileBaseMap(
+  url: string,
+  sourceType: VectorTileSourceType,
+  options: VectorTileBaseMapOptions
+): VectorTileBaseMap {
+  let loadTile: (coords: L.Coords) => Promise<ArrayBuffer | null>;
+  if (sourceType === "pmtiles") {
+    const archive = new PMTiles(url);
+    loadTile = (coords) =>
+      archive
+        .getZxy(coords.z, coords.x, coords.y)
+        .then((response) => response?.data || null);
+  } else {
+    loadTile = (coords) =>
+      fetch(
+        L.Util.template(url, {
+          s: "abc"[Math.abs(coords.x + coords.y) % 3],
+          x: coords.x,
+          y: coords.y,
+          z: coords.z,
+        })
+      ).then((response) => (response.ok ? response.arrayBuffer() : null));
+  }
+
+  // Features need an id for restyle() to find them again; any unique value works
+  let nextFeatureId = 0;
+  return new VectorTileGrid(loadTile, {
+    pane: options.pane,
+    sourceLayer: options.sourceLayer,
+    featureStyle: options.style,
+    vectorTileLayerStyles: {},
+    interactive: true,
+    getFeatureId: () => nextFeatureId++,
+  });
+}
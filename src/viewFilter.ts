@@ -0,0 +1,105 @@
+"use strict";
+
+import * as L from "leaflet";
+import {
+  AdvancedFilter,
+  BasicFilter,
+  IFilterColumnTarget,
+} from "powerbi-models";
+import powerbiVisualsApi from "powerbi-visuals-api";
+import DataViewMetadataColumn = powerbiVisualsApi.DataViewMetadataColumn;
+
+// Table and column of a data role column, read from its query expression: a
+// column reference, or the column under an aggregation such as Sum(Sites.Latitude).
+// Table names may contain dots, so the query name is not split.
+export function getFilterTarget(
+  column: DataViewMetadataColumn
+): IFilterColumnTarget | null {
+  const expr: any = column?.expr;
+  const columnRef = expr?.ref !== undefined ? expr : expr?.arg;
+  const table = columnRef?.source?.entity;
+  const ref = columnRef?.ref;
+  if (typeof table !== "string" || typeof ref !== "string") {
+    return null;
+  }
+  return { table, column: ref };
+}
+
+export function buildRangeFilter(
+  target: IFilterColumnTarget,
+  min: number,
+  max: number
+): powerbiVisualsApi.IFilter {
+  return new AdvancedFilter(
+    target,
+    "And",
+    { operator: "GreaterThanOrEqual", value: min },
+    { operator: "LessThanOrEqual", value: max }
+  ).toJSON();
+}
+
+export function buildInFilter(
+  target: IFilterColumnTarget,
+  values: (string | number)[]
+): powerbiVisualsApi.IFilter {
+  return new BasicFilter(target, "In", values).toJSON();
+}
+
+// On-canvas toggle and clear buttons for the "Filter by map view" mode
+export class ViewFilterControl extends L.Control {
+  private container: HTMLElement;
+  private toggleButton: HTMLElement;
+  private active: boolean = false;
+
+  constructor(
+    options: L.ControlOptions,
+    private onToggle: (active: boolean) => void,
+    private onClear: () => void
+  ) {
+    super(options);
+    this.container = L.DomUtil.create("div", "leaflet-bar view-filter-control");
+    this.toggleButton = this.createButton(
+      "Filter to map view",
+      "Filter the report to the data visible on the map",
+      () => this.setActive(!this.active, true)
+    );
+    this.createButton("Clear", "Clear the map view filter", () => {
+      this.setActive(false, false);
+      this.onClear();
+    });
+    L.DomEvent.disableClickPropagation(this.container);
+  }
+
+  public onAdd(): HTMLElement {
+    return this.container;
+  }
+
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  public setActive(active: boolean, notify: boolean = false): void {
+    this.active = active;
+    this.toggleButton.classList.toggle("active", active);
+    if (notify) {
+      this.onToggle(active);
+    }
+  }
+
+  private createButton(
+    text: string,
+    title: string,
+    onClick: () => void
+  ): HTMLElement {
+    const button = L.DomUtil.create("a", "view-filter-button", this.container);
+    button.setAttribute("href", "#");
+    button.setAttribute("role", "button");
+    button.setAttribute("title", title);
+    button.textContent = text;
+    L.DomEvent.on(button, "click", (e) => {
+      L.DomEvent.preventDefault(e);
+      onClick();
+    });
+    return button;
+  }
+}
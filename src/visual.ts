@@ -5,6 +5,7 @@ import "leaflet-draw";
 import "leaflet.markercluster/dist/MarkerCluster.css";
 import "leaflet.markercluster/dist/MarkerCluster.Default.css";
 import "leaflet.markercluster";
+import "leaflet.heat";
 import powerbiVisualsApi from "powerbi-visuals-api";
 import IVisual = powerbiVisualsApi.extensibility.visual.IVisual;
 import VisualConstructorOptions = powerbiVisualsApi.extensibility.visual.VisualConstructorOptions;
@@ -12,8 +13,183 @@ import VisualUpdateOptions = powerbiVisualsApi.extensibility.visual.VisualUpdate
 import DataView = powerbiVisualsApi.DataView;
 import ISelectionManager = powerbiVisualsApi.extensibility.ISelectionManager;
 import ISelectionId = powerbiVisualsApi.visuals.ISelectionId;
+import { FeatureCollection } from "geojson";
 import customGeoJSON from "./custom.geo.json";
 import { VisualFormattingSettingsModel } from "./settings";
+import { escapeHtml } from "./html";
+import {
+  getGeometryCentroid,
+  isPointInRing,
+  parseGeometryText,
+} from "./geometry";
+import {
+  ColorRampOptions,
+  createClassColorScale,
+  createValueColorScale,
+  getClassColors,
+} from "./colorRamps";
+import {
+  ClassificationMethod,
+  computeClassBreaks,
+  parseManualBreaks,
+} from "./classification";
+import { LegendControl, LegendItem, LegendSection } from "./legend";
+import { SelectionTools } from "./selectionTools";
+import {
+  ViewFilterControl,
+  buildInFilter,
+  buildRangeFilter,
+  getFilterTarget,
+} from "./viewFilter";
+import {
+  LayerToggleControl,
+  MapViewState,
+  ToggleableLayer,
+  isSameMapView,
+  parseMapViewState,
+} from "./mapView";
+import { createRasterTileLayer } from "./tileLayer";
+import { MapFileFormat, detectMapFileFormat, readMapFile } from "./mapFormats";
+import {
+  VectorTileBaseMap,
+  VectorTileSourceType,
+  createVectorTileBaseMap,
+  detectVectorTileSource,
+} from "./vectorTiles";
+import {
+  OverlayDefinition,
+  buildOverlayTooltipRows,
+  parseOverlayDefinitions,
+} from "./overlays";
+import {
+  clearMapCache,
+  fetchWithCache,
+  getMapCacheUnavailableSection,
+  isMapCacheAvailable,
+} from "./mapCache";
+import {
+  MapFetch,
+  MapLoadError,
+  MapLoadSequence,
+  describeMapLoadError,
+  fetchMapFile,
+  toMapLoadError,
+} from "./mapLoader";
+import {
+  DiagnosticsBadge,
+  DiagnosticsControl,
+  DiagnosticsSection,
+} from "./diagnostics";
+import {
+  AdminCodeCoverage,
+  buildAdminCodeCoverage,
+  getAdminCodeCoverageSection,
+  getUnmatchedRowShare,
+  indexFeaturesByJoinValue,
+} from "./coverage";
+import { PolygonIndex, getSpatialJoinUnavailableSection } from "./spatialJoin";
+import { BubbleScaling, BubbleSizeOptions, getBubbleRadius } from "./bubbles";
+import {
+  HeatmapGradient,
+  HeatmapObservation,
+  buildHeatmapPoints,
+  getHeatmapGradient,
+  getHeatmapGradientColors,
+  getHeatmapMax,
+} from "./heatmap";
+import {
+  AggregationMethod,
+  RegionRecord,
+  RegionStats,
+  aggregateByRegion,
+  getAggregateValue,
+  getAggregationLabel,
+  usesValueField,
+} from "./aggregation";
+import {
+  FeatureQualityReport,
+  getFeatureQualityErrors,
+  getFeatureQualitySection,
+  hasDrawableFeatures,
+  summarizeFeatureQuality,
+  validateFeatureCollection,
+} from "./featureQuality";
+
+// Values extracted for a single data row
+interface LocationInfo {
+  latitude?: number;
+  longitude?: number;
+  adminCode?: string;
+  obsId?: string;
+  country?: string;
+  refId?: string;
+  extraFields?: { name: string; value: string }[]; // Named schema positions without a built-in meaning
+}
+
+// Base map properties tried for the country name of a spatially joined point
+const COUNTRY_NAME_PROPERTIES = [
+  "ADM0_NAME",
+  "NAME_0",
+  "country",
+  "admin",
+  "name",
+];
+
+// Names accepted in the location field schema, mapped to LocationInfo keys
+const LOCATION_FIELD_ALIASES: { [name: string]: keyof LocationInfo } = {
+  refid: "refId",
+  ref: "refId",
+  lat: "latitude",
+  latitude: "latitude",
+  y: "latitude",
+  lng: "longitude",
+  lon: "longitude",
+  long: "longitude",
+  longitude: "longitude",
+  x: "longitude",
+  admin: "adminCode",
+  admincode: "adminCode",
+  gaul_code: "adminCode",
+  code: "adminCode",
+  obs: "obsId",
+  obsid: "obsId",
+  obs_id: "obsId",
+  country: "country",
+  countryname: "country",
+  country_name: "country",
+};
+
+// Layers readers can hide; each is drawn in its own pane, stacked below overlayPane
+const TOGGLEABLE_LAYERS: ToggleableLayer[] = [
+  { key: "tiles", label: "Tiles", pane: "tilePane" },
+  { key: "baseMap", label: "Base map", pane: "baseMapPane" },
+  { key: "regions", label: "Regions", pane: "regionsPane" },
+  { key: "geometries", label: "Geometries", pane: "geometriesPane" },
+  { key: "bubbles", label: "Bubbles", pane: "bubblesPane" },
+  {
+    key: "disputedBorders",
+    label: "Disputed borders",
+    pane: "disputedBordersPane",
+  },
+  { key: "markers", label: "Observations", pane: "markerPane" },
+];
+
+// One proportional symbol, for a single row or for every row of a region
+interface Bubble {
+  latLng: L.LatLng;
+  value: number;
+  refIdFiltered: boolean; // Any of its rows is in the Ref ID Filter
+  rowIndex?: number; // Set on bubbles at row coordinates
+  info?: LocationInfo;
+  adminCode?: string; // Set on bubbles at region centroids
+}
+
+interface OverlayLayer {
+  definition: OverlayDefinition;
+  layer: L.GeoJSON;
+  pane: string;
+  key: string; // hiddenLayers key; names are encoded so the saved list stays comma-separated
+}
 
 export class Visual implements IVisual {
   private target: HTMLElement;
@@ -24,16 +200,64 @@ export class Visual implements IVisual {
   private selectionIds: ISelectionId[] = [];
   private markerClusterGroup: L.MarkerClusterGroup;
   private baseMapLayer: L.GeoJSON;
+  private tileLayer: L.TileLayer | null = null; // Raster XYZ tiles from the tile layer URL template
+  private tileLayerKey: string = ""; // Tile settings the current tileLayer was built from
+  private vectorTileLayer: VectorTileBaseMap | null = null; // MVT / PMTiles base map, joined to the data per tile feature
+  private vectorTileAdminCodes: Map<string, string> = new Map(); // Normalised admin code -> admin code, for per-feature joins
+  private regionDimmingSelection: Set<string> = new Set(); // Keys of the selection the regions were last dimmed for
   private disputedBordersLayer: L.GeoJSON;
+  private overlayLayers: OverlayLayer[] = [];
+  private overlayKey: string = ""; // Overlay definitions the current overlayLayers were built from
+  private overlayControl: L.Control.Layers | null = null;
+  private baseMapLoads = new MapLoadSequence(); // Only the latest base map load may draw its result
+  private disputedBordersLoads = new MapLoadSequence();
   private tooltipDiv: HTMLElement;
+  private legendControl: LegendControl;
+  private diagnosticsControl: DiagnosticsControl;
+  private featureQualityReport: FeatureQualityReport | null = null; // Checks of the loaded GeoJSON base map
+  private featureQualityJoinKey: string = ""; // Join properties the report was made for
+  private diagnosticsBadge: DiagnosticsBadge;
+  private diagnosticsPanelOpened: boolean = false; // Opened from the badge, whatever the panel mode
+  private mapCacheAvailable: boolean = true; // Set once IndexedDB failed to open
+  private mapCacheClearPending: boolean = false; // Set until the host echoes clearCache back as false
+  private adminCodeCoverage: AdminCodeCoverage | null = null; // Match status of the data's admin codes
+  private featureJoinIndex: Map<string, number> | null = null; // Features per normalised join value
+  private featureJoinIndexKey: string = ""; // Join properties the index was built for
+  private featureJoinIndexFeatures: any[] = []; // geoJsonFeatures the index was built from
+  private polygonIndex: PolygonIndex | null = null; // Spatial index of geoJsonFeatures for point-in-polygon joins
+  private polygonIndexFeatures: any[] = []; // geoJsonFeatures the polygon index was built from
+  private spatialJoinResults: Map<string, LocationInfo | null> = new Map(); // "lat,lng" -> derived admin code and country
+  private spatialJoinKey: string = ""; // Spatial join settings the results were derived with
+  private selectionTools: SelectionTools;
+  private viewFilterControl: ViewFilterControl;
+  private viewFilterActiveSaved: boolean = false; // Toggle state last read from viewFilterSettings
+  private layerToggleControl: LayerToggleControl;
+  private hiddenLayers: Set<string> = new Set(); // Keys of TOGGLEABLE_LAYERS switched off by the reader
+  private savedViewState: MapViewState | null = null; // Last view read from the viewState object
+  private restoringView: boolean = false; // Set while the visual moves the map itself, so the move is not persisted
+  private initialViewApplied: boolean = false;
+  private initialViewKey: string = ""; // Initial view settings last applied, to re-apply them when they change
   private emptyStateDiv: HTMLElement;
   private loaderDiv: HTMLElement;
   private currentSelection: ISelectionId[] = [];
   private persistentSelection: ISelectionId[] = [];
   private currentDataView: DataView;
   private settings: VisualFormattingSettingsModel;
-  private geoJsonFeatures: any[] = []; // Store GeoJSON features for gaul_code lookup
+  private geoJsonFeatures: any[] = []; // Store GeoJSON features for admin code lookup
   private choroplethLayer: L.GeoJSON<any> | null = null; // Choropleth layer for highlighting matching regions
+  private regionValues: Map<string, number> = new Map(); // Aggregated value per normalised admin code
+  private regionStats: Map<string, RegionStats> = new Map(); // Row statistics per normalised admin code, for tooltips
+  private regionCountryNames: Map<string, string> = new Map(); // Country name from the first row of each region
+  private choroplethValueLabel: string | null = null; // Name of the aggregated value, null when regions are not coloured by value
+  private choroplethColorScale: ((value: number) => string) | null = null;
+  private regionSelectionIds: Map<string, ISelectionId[]> = new Map(); // Selection IDs of the rows per normalised admin code
+  private choroplethClassBreaks: number[] = []; // [min, ..., max] of the classified region values, empty when continuous
+  private geometryLayer: L.GeoJSON; // Per-row WKT / GeoJSON geometries from the geometry data role
+  private geometryLayers: L.Path[] = []; // One path per row geometry, used for selection and dimming
+  private bubbleLayer: L.FeatureGroup; // Proportional symbols at row coordinates or region centroids
+  private bubbleMarkers: L.CircleMarker[] = []; // One circle per Bubble, used for selection and dimming
+  private bubbleSizeLabel: string = ""; // Legend title of the bubbles
+  private heatLayer: L.HeatLayer | null = null; // Observations drawn as a heatmap, created on first use
   private isLoading: boolean = false;
   private loadingOperations: Set<string> = new Set();
   private cachedAdminCodes: string[] = []; // Cache admin codes to avoid repeated processing
@@ -152,12 +376,22 @@ export class Visual implements IVisual {
 
     this.map = L.map(mapElement, {
       zoomControl: false,
-      attributionControl: false,
       worldCopyJump: true,
-      maxZoom: 5,
-      minZoom: 1,
+      maxZoom: this.settings.zoomSettingsCard.maxZoom.value,
+      minZoom: this.settings.zoomSettingsCard.minZoom.value,
+      doubleClickZoom: false,
     }).setView([20, 0], 2);
 
+    // One pane per toggleable layer, so hiding a layer never removes it from the map
+    TOGGLEABLE_LAYERS.filter((layer) => !this.map.getPane(layer.pane)).forEach(
+      (layer, index) => {
+        this.map.createPane(layer.pane).style.zIndex = String(350 + index * 10);
+      }
+    );
+
+    // Tile providers' attribution is shown without the Leaflet prefix
+    this.map.attributionControl.setPrefix(false);
+
     // Add zoom control to top right
     L.control
       .zoom({
@@ -165,9 +399,80 @@ export class Visual implements IVisual {
       })
       .addTo(this.map);
 
-    // Add double-click to reset view
+    // Add legend control; it fills itself from the active layers in updateLegend
+    this.legendControl = new LegendControl({ position: "bottomleft" });
+    this.legendControl.addTo(this.map);
+
+    // Add the diagnostics panel; updateDiagnosticsPanel decides when it is shown
+    this.diagnosticsControl = new DiagnosticsControl({
+      position: "bottomright",
+    });
+    this.diagnosticsBadge = new DiagnosticsBadge(
+      { position: "topleft" },
+      () => {
+        this.diagnosticsPanelOpened = !this.diagnosticsPanelOpened;
+        this.updateDiagnosticsPanel();
+      }
+    );
+    isMapCacheAvailable().then((available) => {
+      this.mapCacheAvailable = available;
+      this.updateDiagnosticsPanel();
+    });
+
+    // Add rectangle, polygon and lasso selection tools
+    this.selectionTools = new SelectionTools(this.map, (ring) =>
+      this.selectInShape(ring)
+    );
+    this.selectionTools.setEnabled(true);
+
+    // Add the "Filter by map view" toggle (shown when enabled in the formatting pane)
+    this.viewFilterControl = new ViewFilterControl(
+      { position: "topleft" },
+      (active) => {
+        this.persistViewFilterActive(active);
+        if (active) {
+          this.applyMapViewFilter();
+        } else {
+          this.clearMapViewFilter();
+        }
+      },
+      () => {
+        this.persistViewFilterActive(false);
+        this.clearMapViewFilter();
+      }
+    );
+    this.map.on("moveend", () => this.applyMapViewFilter());
+
+    // Add layer toggles and remember the view after every pan or zoom
+    this.layerToggleControl = new LayerToggleControl(
+      { position: "topright" },
+      TOGGLEABLE_LAYERS,
+      (key, visible) => {
+        this.setLayerVisible(key, visible);
+        this.persistMapView();
+      }
+    );
+    this.map.on("moveend", () => this.persistMapView());
+
+    // Overlays switched in the layers control are remembered with the view
+    this.map.on("overlayadd overlayremove", (event: L.LayersControlEvent) => {
+      const overlay = this.overlayLayers.find(
+        (item) => item.layer === event.layer
+      );
+      if (overlay) {
+        this.setOverlayVisible(overlay, event.type === "overlayadd");
+        this.persistMapView();
+      }
+    });
+    this.map.on("zoomend", () => this.updateOverlayZoomRange());
+
+    // Add double-click to reset view (zooming in is handled by Leaflet's doubleClickZoom)
     this.map.on("dblclick", () => {
-      this.resetToDefaultView();
+      if (
+        this.settings.zoomSettingsCard.doubleClick.value.value === "resetView"
+      ) {
+        this.resetToDefaultView();
+      }
     });
 
     // Add map click handler to clear selections when clicking on empty areas
@@ -182,6 +487,7 @@ export class Visual implements IVisual {
 
     // Initialize base map layer from custom.geo.json
     this.baseMapLayer = L.geoJSON(null, {
+      pane: "baseMapPane",
       style: () => this.getBaseMapStyle(),
       onEachFeature: (feature, layer) =>
         this.onEachBaseMapFeature(feature, layer),
@@ -189,6 +495,7 @@ export class Visual implements IVisual {
 
     // Initialize disputed borders layer
     this.disputedBordersLayer = L.geoJSON(null, {
+      pane: "disputedBordersPane",
       style: (feature) => this.getDisputedBorderStyle(feature),
       onEachFeature: (feature, layer) =>
         this.onEachDisputedBorderFeature(feature, layer),
@@ -196,10 +503,24 @@ export class Visual implements IVisual {
 
     // Initialize choropleth layer for highlighting matching regions
     this.choroplethLayer = L.geoJSON(null, {
+      pane: "regionsPane",
       style: this.getChoroplethStyle.bind(this),
       onEachFeature: this.onEachChoroplethFeature.bind(this),
     });
 
+    // Initialize layer for per-row geometries
+    this.geometryLayer = L.geoJSON(null, {
+      pane: "geometriesPane",
+      style: () => this.getGeometryStyle(),
+      pointToLayer: (feature, latlng) =>
+        L.circleMarker(latlng, { radius: 6, pane: "geometriesPane" }),
+      onEachFeature: (feature, layer) =>
+        this.onEachGeometryFeature(feature, layer),
+    });
+
+    // Initialize layer for proportional symbols
+    this.bubbleLayer = L.featureGroup();
+
     // Initialize marker cluster group
     this.markerClusterGroup = L.markerClusterGroup({
       chunkedLoading: true,
@@ -207,7 +528,7 @@ export class Visual implements IVisual {
       spiderfyOnMaxZoom: true,
       showCoverageOnHover: true,
       zoomToBoundsOnClick: true,
-      disableClusteringAtZoom: 18,
+      disableClusteringAtZoom: this.settings.zoomSettingsCard.maxZoom.value + 1,
       removeOutsideVisibleBounds: true,
       animate: true,
       animateAddingMarkers: true,
@@ -357,6 +678,179 @@ export class Visual implements IVisual {
         justify-content: center;
       }
       
+      /* Legend control */
+      .map-legend {
+        background: white;
+        border: 1px solid #22294B;
+        border-radius: 4px;
+        padding: 8px 10px;
+        font-family: Arial, sans-serif;
+        font-size: 11px;
+        color: #2D2D2D;
+        max-width: 200px;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.15);
+      }
+
+      .map-legend-header {
+        font-weight: bold;
+        font-size: 12px;
+        cursor: pointer;
+        user-select: none;
+      }
+
+      .map-legend-header::after {
+        content: " ▾";
+      }
+
+      .map-legend-header.collapsed::after {
+        content: " ▸";
+      }
+
+      .map-legend-section {
+        font-weight: bold;
+        margin: 8px 0 4px 0;
+      }
+
+      .map-legend-item {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        padding: 2px 0;
+      }
+
+      .map-legend-symbol {
+        flex: none;
+        display: inline-block;
+        width: 16px;
+        height: 12px;
+      }
+
+      .map-legend-fill {
+        border: 1px solid black;
+      }
+
+      .map-legend-pin {
+        width: 12px;
+        border-radius: 50% 50% 50% 0;
+        transform: rotate(-45deg);
+      }
+
+      .map-legend-circle {
+        width: 12px;
+        border-radius: 50%;
+      }
+
+      .map-legend-gradient {
+        width: 48px;
+      }
+
+      .map-legend-line,
+      .map-legend-dashedLine {
+        height: 0;
+        border-top: 3px solid;
+      }
+
+      .map-legend-dashedLine {
+        border-top-style: dashed;
+      }
+
+      /* Lasso selection button */
+      .lasso-control a {
+        font-size: 16px;
+        font-weight: bold;
+        color: #22294B;
+        text-decoration: none;
+      }
+
+      .lasso-control a.active {
+        background-color: #E8E9EA;
+      }
+
+      /* Map view filter buttons */
+      .view-filter-control a {
+        width: auto !important;
+        padding: 0 8px;
+        font-family: Arial, sans-serif;
+        font-size: 11px;
+        color: #22294B;
+        text-decoration: none;
+      }
+
+      .view-filter-control a.active {
+        background-color: #455E6F;
+        color: white;
+      }
+
+      /* Diagnostics panel */
+      .map-diagnostics {
+        background: white;
+        border: 1px solid #22294B;
+        border-radius: 4px;
+        padding: 8px 10px;
+        font-family: Arial, sans-serif;
+        font-size: 11px;
+        color: #2D2D2D;
+        max-width: 280px;
+        max-height: 240px;
+        overflow-y: auto;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.15);
+      }
+
+      .map-diagnostics-header {
+        font-weight: bold;
+        font-size: 12px;
+        cursor: pointer;
+        user-select: none;
+      }
+
+      .map-diagnostics-header::after {
+        content: " ▾";
+      }
+
+      .map-diagnostics-header.collapsed::after {
+        content: " ▸";
+      }
+
+      .map-diagnostics-section {
+        font-weight: bold;
+        margin: 8px 0 4px 0;
+      }
+
+      .map-diagnostics-row {
+        display: flex;
+        justify-content: space-between;
+        gap: 8px;
+        margin: 2px 0;
+      }
+
+      .map-diagnostics-row.warning .map-diagnostics-value {
+        color: #F9B112;
+        font-weight: bold;
+      }
+
+      .map-diagnostics-row.error .map-diagnostics-value {
+        color: #d32f2f;
+        font-weight: bold;
+      }
+
+      .map-diagnostics-note {
+        color: #666;
+        margin: 2px 0;
+        word-break: break-word;
+      }
+
+      .map-diagnostics-badge {
+        background: #FFF4DB;
+        border: 1px solid #F9B112;
+        border-radius: 4px;
+        padding: 4px 8px;
+        font-family: Arial, sans-serif;
+        font-size: 11px;
+        font-weight: bold;
+        color: #22294B;
+        cursor: pointer;
+      }
+
       .marker-cluster-small:hover,
       .marker-cluster-medium:hover,
       .marker-cluster-large:hover {
@@ -414,14 +908,7 @@ export class Visual implements IVisual {
   }
 
   // Helper: parse a single location field supporting JSON or delimited strings
-  private parseLocationField(value: any): {
-    latitude?: number;
-    longitude?: number;
-    adminCode?: string;
-    obsId?: string;
-    country?: string;
-    refId?: string;
-  } {
+  private parseLocationField(value: any): LocationInfo {
     if (value === null || value === undefined) return {};
     const raw = String(value).trim();
     if (!raw || raw === "NA") return {};
@@ -479,8 +966,14 @@ export class Visual implements IVisual {
       // Not JSON, continue
     }
 
-    // Support common delimiters: comma, pipe, semicolon, space
-    const parts = raw.split(/,/);
+    // Read by the declared layout when a schema is configured instead of guessing from the part count
+    const schema = this.getLocationFieldSchema();
+    if (schema.length > 0) {
+      return this.parseLocationBySchema(raw, schema);
+    }
+
+    // Without a schema the layout is inferred from the number of parts
+    const parts = raw.split(this.getLocationDelimiter());
     if (parts.length >= 2) {
       let latStr: string | undefined;
       let lngStr: string | undefined;
@@ -489,8 +982,8 @@ export class Visual implements IVisual {
       let country: string | undefined;
       let refId: string | undefined;
 
-      // Check if we have the pattern refId,lat,lng,admin,obsId,country (6+ parts with commas)
-      if (parts.length >= 6 && /,/.test(raw)) {
+      // Check if we have the pattern refId,lat,lng,admin,obsId,country (6+ parts)
+      if (parts.length >= 6) {
         // Treat as: refId, lat, lng, admin, obsId, country
         refId = parts[0] && parts[0].trim() !== "" ? parts[0] : undefined;
         latStr = parts[1] && parts[1].trim() !== "" ? parts[1] : undefined;
@@ -505,8 +998,8 @@ export class Visual implements IVisual {
           } catch {}
         }
       }
-      // Check if we have the pattern refId,lat,lng,admin (4+ parts with commas)
-      else if (parts.length >= 4 && /,/.test(raw)) {
+      // Check if we have the pattern refId,lat,lng,admin (4+ parts)
+      else if (parts.length >= 4) {
         // Treat as: refId, lat, lng, admin
         refId = parts[0] && parts[0].trim() !== "" ? parts[0] : undefined;
         latStr = parts[1] && parts[1].trim() !== "" ? parts[1] : undefined;
@@ -668,21 +1161,65 @@ export class Visual implements IVisual {
     return fallback;
   }
 
+  // Helper: the configured Data field delimiter, with or without a schema
+  private getLocationDelimiter(): string {
+    return this.settings?.mapSettingsCard?.locationDelimiter?.value || ",";
+  }
+
+  // Helper: split the location field schema setting into field names
+  private getLocationFieldSchema(): string[] {
+    const schemaText =
+      this.settings?.mapSettingsCard?.locationFieldSchema?.value || "";
+    if (schemaText.trim() === "") {
+      return [];
+    }
+    // Empty names are kept so that their positions are skipped
+    return schemaText.split("|").map((name) => name.trim());
+  }
+
+  // Helper: parse a delimited location string using the configured schema
+  private parseLocationBySchema(raw: string, schema: string[]): LocationInfo {
+    const parts = raw.split(this.getLocationDelimiter());
+    const result: LocationInfo = {};
+
+    schema.forEach((name, index) => {
+      const part = parts[index] !== undefined ? parts[index].trim() : "";
+      if (!name || part === "" || part === "NA") {
+        return;
+      }
+
+      const key = LOCATION_FIELD_ALIASES[name.toLowerCase()];
+      if (key === "latitude" || key === "longitude") {
+        const coordinate = parseFloat(part);
+        if (!isNaN(coordinate)) result[key] = coordinate;
+      } else if (key && key !== "extraFields") {
+        result[key] = part;
+      } else {
+        result.extraFields = result.extraFields || [];
+        result.extraFields.push({ name, value: part });
+      }
+    });
+
+    return result;
+  }
+
+  // Helper: read a trimmed text value from a role column, ignoring blanks and "NA"
+  private getTextValueForRow(row: any[], colIndex: number): string | undefined {
+    if (colIndex < 0 || row[colIndex] === undefined || row[colIndex] === null) {
+      return undefined;
+    }
+    const text = String(row[colIndex]).trim();
+    return text && text !== "NA" ? text : undefined;
+  }
+
   // Helper: extract lat/lng/admin/obsId/country for a row, preferring explicit roles over combined location
-  private getLatLngAdminForRow(
-    row: any[],
-    columns: any[]
-  ): {
-    latitude?: number;
-    longitude?: number;
-    adminCode?: string;
-    obsId?: string;
-    country?: string;
-    refId?: string;
-  } {
+  private getLatLngAdminForRow(row: any[], columns: any[]): LocationInfo {
     const latIdx = this.getColumnIndexByRole(columns, "latitude");
     const lngIdx = this.getColumnIndexByRole(columns, "longitude");
     const adminIdx = this.getColumnIndexByRole(columns, "adminCode");
+    const obsIdIdx = this.getColumnIndexByRole(columns, "obsId");
+    const countryIdx = this.getColumnIndexByRole(columns, "country");
+    const refIdIdx = this.getColumnIndexByRole(columns, "pointRefId");
     const locationIdx = this.getColumnIndexByRole(columns, "location");
 
     const result: any = {};
@@ -704,11 +1241,20 @@ export class Visual implements IVisual {
       if (admin && admin !== "undefined" && admin !== "null")
         result.adminCode = admin;
     }
+    const obsId = this.getTextValueForRow(row, obsIdIdx);
+    if (obsId !== undefined) result.obsId = obsId;
+    const country = this.getTextValueForRow(row, countryIdx);
+    if (country !== undefined) result.country = country;
+    const refId = this.getTextValueForRow(row, refIdIdx);
+    if (refId !== undefined) result.refId = refId;
 
     if (
       result.latitude === undefined ||
       result.longitude === undefined ||
-      result.adminCode === undefined
+      result.adminCode === undefined ||
+      result.obsId === undefined ||
+      result.country === undefined ||
+      result.refId === undefined
     ) {
       if (locationIdx >= 0) {
         if (this.debugLocationValueLogCount < 50) {
@@ -730,6 +1276,8 @@ export class Visual implements IVisual {
           result.country = parsed.country;
         if (result.refId === undefined && parsed.refId !== undefined)
           result.refId = parsed.refId;
+        if (parsed.extraFields !== undefined)
+          result.extraFields = parsed.extraFields;
         if (this.debugLocationLogCount < 20) {
           try {
             this.debugLocationLogCount++;
@@ -738,16 +1286,74 @@ export class Visual implements IVisual {
       }
     }
 
+    // Points without an admin code or country take them from the base map region they fall in
+    if (
+      (result.adminCode === undefined || result.country === undefined) &&
+      result.latitude !== undefined &&
+      result.longitude !== undefined &&
+      this.settings.spatialJoinSettingsCard.enabled.value
+    ) {
+      const region = this.findRegionAtPoint(result.latitude, result.longitude);
+      result.adminCode ??= region?.adminCode;
+      result.country ??= region?.country;
+    }
+
     return result;
   }
 
+  // Admin code and country name of the base map polygon containing a point, cached per position
+  private findRegionAtPoint(
+    latitude: number,
+    longitude: number
+  ): LocationInfo | null {
+    if (this.geoJsonFeatures.length === 0 || this.vectorTileLayer) {
+      return null;
+    }
+    if (this.polygonIndexFeatures !== this.geoJsonFeatures) {
+      this.polygonIndex = new PolygonIndex(this.geoJsonFeatures);
+      this.polygonIndexFeatures = this.geoJsonFeatures;
+      this.spatialJoinResults.clear();
+    }
+
+    const key = `${latitude},${longitude}`;
+    if (this.spatialJoinResults.has(key)) {
+      return this.spatialJoinResults.get(key);
+    }
+    const properties = this.polygonIndex.findFeature(
+      longitude,
+      latitude
+    )?.properties;
+    let region: LocationInfo | null = null;
+    if (properties) {
+      const countryProperty =
+        this.settings.spatialJoinSettingsCard.countryProperty.value.trim();
+      const findValue = (names: string[]) =>
+        names
+          .map((name) => properties[name])
+          .find(
+            (value) => value !== undefined && value !== null && value !== ""
+          );
+      const adminCode = findValue(this.getJoinProperties());
+      const country = findValue(
+        countryProperty ? [countryProperty] : COUNTRY_NAME_PROPERTIES
+      );
+      region = {
+        adminCode: adminCode !== undefined ? String(adminCode) : undefined,
+        country: country !== undefined ? String(country) : undefined,
+      };
+    }
+    this.spatialJoinResults.set(key, region);
+    return region;
+  }
+
+  // Over raster tiles only the outlines are drawn, so the tiles show through the regions
   private getBaseMapStyle() {
     return {
       fillColor: "#F2F2F2",
       weight: 0.5,
       opacity: 1,
       color: "#666666",
-      fillOpacity: 1,
+      fillOpacity: this.tileLayer ? 0 : 1,
     };
   }
 
@@ -766,10 +1372,10 @@ export class Visual implements IVisual {
     return duration;
   }
 
-  // Method to reset map to desired zoom level
+  // Method to reset map to the initial view from the formatting pane
   private resetToDefaultView() {
     if (this.map) {
-      this.map.setView([20, 0], 2);
+      this.applyInitialView();
     }
   }
 
@@ -913,23 +1519,30 @@ export class Visual implements IVisual {
       return null;
     }
 
-    const feature = this.geoJsonFeatures.find((feature) => {
-      const gaulCode = feature.properties?.gaul_code;
-      return gaulCode && String(gaulCode) === adminCode;
-    });
+    const feature = this.geoJsonFeatures.find((feature) =>
+      this.featureMatchesAdminCode(feature, adminCode)
+    );
 
     if (feature) {
-      return (
-        feature.properties?.gaul0_name ||
-        feature.properties?.disp_en ||
-        feature.properties?.name ||
-        null
-      );
+      return this.getFeatureName(feature);
     }
 
     return null;
   }
 
+  // Get a display name from the name properties used by GAUL, Natural Earth and geoBoundaries
+  private getFeatureName(feature: any): string | null {
+    return (
+      feature.properties?.gaul0_name ||
+      feature.properties?.disp_en ||
+      feature.properties?.name ||
+      feature.properties?.NAME ||
+      feature.properties?.ADMIN ||
+      feature.properties?.shapeName ||
+      null
+    );
+  }
+
   // Build cluster tooltip content
   private buildClusterTooltipContent(
     countryData: Map<string, { countryName: string; obsIds: string[] }>
@@ -978,10 +1591,11 @@ export class Visual implements IVisual {
         if (zoomInButton) {
           zoomInButton.addEventListener("click", (e) => {
             const currentZoom = this.map.getZoom();
-            if (currentZoom >= 5) {
-              // If we're at or above zoom level 5, reset to 5
+            const maxZoom = this.map.getMaxZoom();
+            if (currentZoom >= maxZoom) {
+              // If we're at or above the maximum zoom, reset to it
               setTimeout(() => {
-                this.map.setZoom(5);
+                this.map.setZoom(maxZoom);
               }, 100);
             }
           });
@@ -999,7 +1613,9 @@ export class Visual implements IVisual {
 
       // Add to base map layer
       this.baseMapLayer.addData(geoData);
-      this.map.addLayer(this.baseMapLayer);
+      if (this.isGeoJsonBaseMapDrawn()) {
+        this.map.addLayer(this.baseMapLayer);
+      }
 
       // Mark map as loaded
       this.mapLoaded = true;
@@ -1022,9 +1638,29 @@ export class Visual implements IVisual {
     // Check if user provided a custom base map URL
     const baseMapUrl = this.settings?.mapSettingsCard?.baseMapUrl?.value;
 
+    this.cancelBaseMapLoad();
+    this.removeVectorTileBaseMap();
+    this.featureQualityReport = null;
+    this.updateDiagnosticsPanel();
     if (baseMapUrl && baseMapUrl.trim() !== "") {
+      const vectorTileSource = this.getVectorTileSourceType(baseMapUrl);
+      if (vectorTileSource) {
+        this.loadVectorTileBaseMap(baseMapUrl, vectorTileSource);
+      } else {
+        this.loadMapDataFromUrl(baseMapUrl);
+      }
+    } else if (this.tileLayer && !this.mapLoaded) {
+      // A tile-only map is ready as soon as the tiles are added
+      this.mapLoaded = true;
+      this.handleDisputedBordersUrlChange();
+    }
+    this.showDataLayersForBaseMap();
+  }
+
+  // Markers and geometries are only drawn once there is a base map under them
+  private showDataLayersForBaseMap() {
+    if (this.hasBaseMap()) {
       this.hideBaseMapMessage();
-      this.loadMapDataFromUrl(baseMapUrl);
 
       // Add markers to map now that base map is loaded
       if (
@@ -1033,25 +1669,156 @@ export class Visual implements IVisual {
       ) {
         this.markerClusterGroup.addTo(this.map);
       }
+      if (
+        this.geometryLayers.length > 0 &&
+        !this.map.hasLayer(this.geometryLayer)
+      ) {
+        this.geometryLayer.addTo(this.map);
+      }
+      if (
+        this.bubbleMarkers.length > 0 &&
+        !this.map.hasLayer(this.bubbleLayer)
+      ) {
+        this.bubbleLayer.addTo(this.map);
+      }
+      this.updateHeatmapLayer(this.currentSelection);
     } else {
-      // Remove markers from map if no URL
+      // Remove markers from map if there is no base map
       if (this.map.hasLayer(this.markerClusterGroup)) {
         this.map.removeLayer(this.markerClusterGroup);
       }
+      if (this.map.hasLayer(this.geometryLayer)) {
+        this.map.removeLayer(this.geometryLayer);
+      }
+      if (this.map.hasLayer(this.bubbleLayer)) {
+        this.map.removeLayer(this.bubbleLayer);
+      }
+      this.updateHeatmapLayer(this.currentSelection);
       this.showBaseMapMessage();
     }
   }
 
+  // Vector tile format of the base map URL, or null for a GeoJSON file
+  private getVectorTileSourceType(url: string): VectorTileSourceType | null {
+    const format = this.settings.mapSettingsCard.baseMapFormat.value.value;
+    if (format === "mvt" || format === "pmtiles") {
+      return format;
+    }
+    return format === "auto" ? detectVectorTileSource(url) : null;
+  }
+
+  // File format of a GeoJSON-pipeline base map: the chosen format, or detected from the response
+  private getMapFileFormat(url: string, response: Response): MapFileFormat {
+    const format = this.settings.mapSettingsCard.baseMapFormat.value.value;
+    if (format === "auto") {
+      return detectMapFileFormat(url, response.headers.get("content-type"));
+    }
+    return format as MapFileFormat;
+  }
+
+  // Tiles are fetched for the current view only, so large admin boundary sets never load in one go
+  private loadVectorTileBaseMap(
+    url: string,
+    sourceType: VectorTileSourceType
+  ): void {
+    this.geoJsonFeatures = [];
+    this.choroplethLayer?.clearLayers();
+
+    // Base map and choropleth are one layer, so it lives in the regions pane
+    this.vectorTileLayer = createVectorTileBaseMap(url, sourceType, {
+      pane: "regionsPane",
+      sourceLayer: this.settings.mapSettingsCard.vectorTileSourceLayer.value,
+      style: (properties) => this.getVectorTileFeatureStyle(properties),
+    });
+    this.vectorTileLayer.on("click", (e: any) =>
+      this.onVectorTileFeatureClick(e)
+    );
+    this.vectorTileLayer.addTo(this.map);
+
+    this.mapLoaded = true;
+    setTimeout(() => {
+      this.handleDisputedBordersUrlChange();
+    }, 100);
+    this.forceChoroplethUpdate();
+  }
+
+  private removeVectorTileBaseMap(): void {
+    if (this.vectorTileLayer) {
+      this.map.removeLayer(this.vectorTileLayer);
+      this.vectorTileLayer = null;
+      this.vectorTileAdminCodes = new Map();
+    }
+  }
+
+  // Recompute the region values, then restyle the tile features already drawn
+  private updateVectorTileChoropleth(): void {
+    const adminCodes = this.getAdminCodesFromData();
+    this.vectorTileAdminCodes = new Map(
+      adminCodes.map((code) => [this.normalizeJoinValue(code), code])
+    );
+    this.updateRegionValues();
+    this.buildRegionSelectionIds();
+    this.vectorTileLayer?.restyle();
+    this.updateLegend();
+  }
+
+  private getVectorTileAdminCode(properties: any): string | null {
+    const adminCode = this.getFeatureJoinValues({ properties })
+      .map((value) => this.vectorTileAdminCodes.get(value))
+      .find((code) => code !== undefined);
+    return adminCode ?? null;
+  }
+
+  // Matched features get the choropleth style, the rest are the base map
+  private getVectorTileFeatureStyle(properties: any): L.PathOptions {
+    const adminCode = this.getVectorTileAdminCode(properties);
+    if (adminCode === null) {
+      return this.isGeoJsonBaseMapDrawn()
+        ? this.getBaseMapStyle()
+        : { stroke: false, fill: false };
+    }
+    const isSelected = this.isRegionSelected(
+      adminCode,
+      this.regionDimmingSelection
+    );
+    return {
+      ...this.getChoroplethStyle({ properties }),
+      opacity: isSelected ? 1 : 0.5,
+      fillOpacity: isSelected ? 1 : 0.4,
+    };
+  }
+
+  private onVectorTileFeatureClick(e: any): void {
+    const adminCode = this.getVectorTileAdminCode(e.layer?.properties);
+    if (adminCode === null) {
+      return;
+    }
+    // Same tooltip and cross-filtering as a GeoJSON choropleth region
+    this.showTooltip(this.buildChoroplethTooltipContent(adminCode), e.latlng);
+    this.selectRegion(adminCode, e.originalEvent);
+    L.DomEvent.stopPropagation(e);
+  }
+
   private async loadDisputedBordersFromUrl(url: string) {
+    const load = this.disputedBordersLoads.start();
     try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      const geoData = await response.json();
-
-      if (!geoData.type || !geoData.features) {
-        throw new Error("Invalid GeoJSON format - missing type or features");
+      const response = await this.requestMapFile(
+        url,
+        () => {
+          if (this.settings.mapSettingsCard.disputedBordersUrl.value === url) {
+            this.loadDisputedBordersFromUrl(url);
+          }
+        },
+        load.signal
+      );
+      // GeoJSON, TopoJSON, zipped Shapefile, KML or GPX, detected from the response
+      const geoData = await readMapFile(
+        response,
+        detectMapFileFormat(url, response.headers.get("content-type")),
+        this.settings.mapSettingsCard.disputedBordersTopologyObject.value
+      );
+      if (!load.isCurrent()) {
+        return;
       }
 
       if (this.disputedBordersLayer) {
@@ -1064,6 +1831,10 @@ export class Visual implements IVisual {
         this.disputedBordersLayer.addTo(this.map);
       }
     } catch (error) {
+      // A newer load replaced this one
+      if (!load.isCurrent()) {
+        return;
+      }
       // If URL fails, just clear the layer and don't show anything
       if (this.disputedBordersLayer) {
         this.disputedBordersLayer.clearLayers();
@@ -1072,6 +1843,7 @@ export class Visual implements IVisual {
         }
       }
     }
+    this.updateLegend();
   }
 
   private handleDisputedBordersUrlChange() {
@@ -1100,6 +1872,8 @@ export class Visual implements IVisual {
     }
     if ((this as any).lastDisputedBordersUrl !== (currentUrl || "")) {
       (this as any).lastDisputedBordersUrl = currentUrl || "";
+      // A load still running for the previous URL must not draw over the new one
+      this.disputedBordersLoads.cancel();
       if (this.disputedBordersLayer) {
         this.disputedBordersLayer.clearLayers();
       }
@@ -1117,47 +1891,479 @@ export class Visual implements IVisual {
     }
   }
 
-  private async loadMapDataFromUrl(url: string) {
-    try {
-      this.showLoader("baseMap");
-      const response = await fetch(url);
+  // Read the map cache settings. "Clear cached maps" works as a button: the persisted
+  // switch is turned back off straight away, then the cache is emptied and the maps reloaded.
+  // Updates that still carry the switch as on until the host applies the reset are ignored
+  private updateCacheSettingsFromPowerBI(dataView: DataView) {
+    const cacheSettings = dataView?.metadata?.objects?.cacheSettings as any;
+    const card = this.settings.cacheSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().cacheSettingsCard;
+
+    card.enabled.value =
+      typeof cacheSettings?.enabled === "boolean"
+        ? cacheSettings.enabled
+        : defaults.enabled.value;
+    card.maxAgeHours.value =
+      typeof cacheSettings?.maxAgeHours === "number"
+        ? Math.max(0, cacheSettings.maxAgeHours)
+        : defaults.maxAgeHours.value;
+    card.clearCache.value = false;
+
+    if (cacheSettings?.clearCache !== true) {
+      this.mapCacheClearPending = false;
+    } else if (!this.mapCacheClearPending) {
+      this.mapCacheClearPending = true;
+      this.host.persistProperties({
+        merge: [
+          {
+            objectName: "cacheSettings",
+            selector: null,
+            properties: { clearCache: false },
+          },
+        ],
+      });
+      clearMapCache().then(() => this.reloadMapFiles());
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+  private updateLoadSettingsFromPowerBI(dataView: DataView) {
+    const loadSettings = dataView?.metadata?.objects?.loadSettings as any;
+    const card = this.settings.loadSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().loadSettingsCard;
 
-      const geoData = await response.json();
+    (["timeoutSeconds", "retries"] as const).forEach((name) => {
+      card[name].value =
+        typeof loadSettings?.[name] === "number"
+          ? Math.max(0, loadSettings[name])
+          : defaults[name].value;
+    });
+  }
 
-      // Validate GeoJSON structure
-      if (!geoData.type || !geoData.features) {
-        throw new Error("Invalid GeoJSON format - missing type or features");
-      }
+  private updateDiagnosticsSettingsFromPowerBI(dataView: DataView) {
+    const diagnosticsSettings = dataView?.metadata?.objects
+      ?.diagnosticsSettings as any;
+    const card = this.settings.diagnosticsSettingsCard;
+    const defaults = new VisualFormattingSettingsModel()
+      .diagnosticsSettingsCard;
+
+    const panelModeValue = diagnosticsSettings?.panelMode
+      ? String(diagnosticsSettings.panelMode)
+      : defaults.panelMode.value.value;
+    card.panelMode.value =
+      card.panelMode.items.find((item) => item.value === panelModeValue) ||
+      defaults.panelMode.value;
+    card.showCoverageBadge.value =
+      typeof diagnosticsSettings?.showCoverageBadge === "boolean"
+        ? diagnosticsSettings.showCoverageBadge
+        : defaults.showCoverageBadge.value;
+    card.unmatchedThreshold.value =
+      typeof diagnosticsSettings?.unmatchedThreshold === "number"
+        ? Math.max(0, Math.min(100, diagnosticsSettings.unmatchedThreshold))
+        : defaults.unmatchedThreshold.value;
+    this.updateDiagnosticsPanel();
+  }
 
-      // Store GeoJSON features for gaul_code lookup
-      this.geoJsonFeatures = geoData.features;
+  private validateBaseMapFeatures(geoData: FeatureCollection): void {
+    this.featureQualityReport = validateFeatureCollection(geoData, (feature) =>
+      this.getFeatureJoinValues(feature)
+    );
+    this.featureQualityJoinKey = this.getJoinProperties().join(",");
+  }
 
-      // Add to base map layer
-      this.baseMapLayer.addData(geoData);
-      this.map.addLayer(this.baseMapLayer);
+  // Fill the diagnostics panel from the latest checks and show it as the panel mode asks
+  private updateDiagnosticsPanel(): void {
+    // Changing the join property in the formatting pane changes which features miss their key
+    if (
+      this.featureQualityReport &&
+      this.featureQualityJoinKey !== this.getJoinProperties().join(",")
+    ) {
+      this.validateBaseMapFeatures({
+        type: "FeatureCollection",
+        features: this.geoJsonFeatures,
+      });
+    }
 
-      // Mark map as loaded
-      this.mapLoaded = true;
+    const card = this.settings.diagnosticsSettingsCard;
+    const sections: DiagnosticsSection[] = [];
+    if (this.featureQualityReport) {
+      sections.push(
+        getFeatureQualitySection(
+          this.featureQualityReport,
+          this.getJoinProperties()
+        )
+      );
+    }
+    if (this.adminCodeCoverage) {
+      sections.push(
+        getAdminCodeCoverageSection(
+          this.adminCodeCoverage,
+          card.unmatchedThreshold.value
+        )
+      );
+    }
 
-      // Load disputed borders from URL only after map is fully loaded
-      setTimeout(() => {
-        this.handleDisputedBordersUrlChange();
-      }, 100);
+    if (
+      this.settings.cacheSettingsCard.enabled.value &&
+      !this.mapCacheAvailable
+    ) {
+      sections.push(getMapCacheUnavailableSection());
+    }
+    if (
+      this.settings.spatialJoinSettingsCard.enabled.value &&
+      this.vectorTileLayer
+    ) {
+      sections.push(getSpatialJoinUnavailableSection());
+    }
+
+    // The badge warns when more than the configured share of rows match no region
+    const unmatchedShare = this.adminCodeCoverage
+      ? getUnmatchedRowShare(this.adminCodeCoverage)
+      : 0;
+    if (
+      card.showCoverageBadge.value &&
+      unmatchedShare > card.unmatchedThreshold.value
+    ) {
+      this.diagnosticsBadge.setText(
+        `${unmatchedShare.toFixed(0)}% of rows match no region`
+      );
+      if (!(this.diagnosticsBadge as any)._map) {
+        this.diagnosticsBadge.addTo(this.map);
+      }
+    } else {
+      this.diagnosticsBadge.remove();
+    }
+
+    const mode = card.panelMode.value.value;
+    const hasErrors = sections.some((section) =>
+      section.rows.some((row) => row.status === "error")
+    );
+    if (
+      sections.length > 0 &&
+      (this.diagnosticsPanelOpened ||
+        mode === "always" ||
+        (mode === "errors" && hasErrors))
+    ) {
+      this.diagnosticsControl.update(sections);
+      if (!(this.diagnosticsControl as any)._map) {
+        this.diagnosticsControl.addTo(this.map);
+      }
+    } else {
+      this.diagnosticsControl.remove();
+    }
+  }
+
+  private updateSpatialJoinSettingsFromPowerBI(dataView: DataView) {
+    const spatialJoinSettings = dataView?.metadata?.objects
+      ?.spatialJoinSettings as any;
+    const card = this.settings.spatialJoinSettingsCard;
+
+    card.enabled.value = spatialJoinSettings?.enabled === true;
+    card.countryProperty.value = spatialJoinSettings?.countryProperty
+      ? String(spatialJoinSettings.countryProperty)
+      : "";
+
+    // Derived admin codes depend on these settings and on the join properties
+    const spatialJoinKey = [
+      card.enabled.value,
+      card.countryProperty.value,
+      this.getJoinProperties().join(","),
+    ].join("|");
+    if (spatialJoinKey !== this.spatialJoinKey) {
+      this.spatialJoinKey = spatialJoinKey;
+      this.spatialJoinResults.clear();
+      this.cachedAdminCodes = [];
+    }
+  }
+
+  // Fetch a map file through the cache when it is enabled; onRefresh runs when a
+  // background revalidation replaced the cached copy that was returned
+  private requestMapFile(
+    url: string,
+    onRefresh: () => void,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const loadSettings = this.settings.loadSettingsCard;
+    const fetchFile: MapFetch = (fileUrl, init) =>
+      fetchMapFile(fileUrl, init || {}, {
+        timeoutMs: Math.max(1, loadSettings.timeoutSeconds.value) * 1000,
+        retries: Math.max(0, Math.round(loadSettings.retries.value)),
+        retryDelayMs: 1000,
+        signal,
+      });
+
+    const cacheSettings = this.settings.cacheSettingsCard;
+    if (!cacheSettings.enabled.value) {
+      return fetchFile(url);
+    }
+    return fetchWithCache(url, {
+      fetch: fetchFile,
+      maxAgeMs: cacheSettings.maxAgeHours.value * 60 * 60 * 1000,
+      onRefresh,
+    });
+  }
+
+  private reloadMapFiles(): void {
+    const mapSettings = this.settings.mapSettingsCard;
+    if (this.hasGeoJsonBaseMapUrl() && !this.vectorTileLayer) {
+      this.baseMapLayer.clearLayers();
+      this.loadMapDataFromUrl(mapSettings.baseMapUrl.value);
+    }
+    if (this.mapLoaded && mapSettings.disputedBordersUrl.value.trim() !== "") {
+      this.loadDisputedBordersFromUrl(mapSettings.disputedBordersUrl.value);
+    }
+    this.overlayLayers.forEach((overlay) => this.loadOverlay(overlay));
+  }
+
+  // Read the overlay definitions and rebuild the overlays when they change
+  private updateOverlaySettingsFromPowerBI(dataView: DataView) {
+    const overlaySettings = dataView?.metadata?.objects?.overlaySettings as any;
+    const card = this.settings.overlaySettingsCard;
+    const defaults = new VisualFormattingSettingsModel().overlaySettingsCard;
+
+    card.definitions.value = overlaySettings?.definitions
+      ? String(overlaySettings.definitions)
+      : defaults.definitions.value;
+    card.showLayerControl.value =
+      typeof overlaySettings?.showLayerControl === "boolean"
+        ? overlaySettings.showLayerControl
+        : defaults.showLayerControl.value;
+
+    const overlayKey = card.definitions.value.trim();
+    if (overlayKey !== this.overlayKey) {
+      this.overlayKey = overlayKey;
+      this.rebuildOverlays();
+    }
+
+    if (card.showLayerControl.value && this.overlayLayers.length > 0) {
+      if (!(this.overlayControl as any)._map) {
+        this.overlayControl.addTo(this.map);
+      }
+    } else {
+      this.overlayControl?.remove();
+    }
+  }
+
+  private rebuildOverlays(): void {
+    // The control goes first, so removing the old layers is not taken as the reader hiding them
+    this.overlayControl?.remove();
+    this.overlayControl = null;
+    this.overlayLayers.forEach((overlay) =>
+      this.map.removeLayer(overlay.layer)
+    );
+
+    this.overlayLayers = parseOverlayDefinitions(
+      this.settings.overlaySettingsCard.definitions.value
+    ).map((definition, index) => {
+      // Leaflet panes cannot be removed, so they are reused by position
+      const pane = `overlayPane${index}`;
+      if (!this.map.getPane(pane)) {
+        this.map.createPane(pane);
+      }
+      // Above the regions and borders, below the markers (markerPane is 600)
+      this.map.getPane(pane).style.zIndex = String(401 + definition.zOrder);
+      return {
+        definition,
+        layer: this.createOverlayLayer(definition, pane),
+        pane,
+        key: `overlay:${encodeURIComponent(definition.name)}`,
+      };
+    });
+
+    if (this.overlayLayers.length === 0) {
+      return;
+    }
+    const layersByName: { [name: string]: L.Layer } = {};
+    this.overlayLayers.forEach((overlay) => {
+      layersByName[overlay.definition.name] = overlay.layer;
+      if (!this.hiddenLayers.has(overlay.key)) {
+        overlay.layer.addTo(this.map);
+      }
+      this.loadOverlay(overlay);
+    });
+    this.overlayControl = L.control.layers(undefined, layersByName, {
+      position: "topright",
+    });
+    this.updateOverlayZoomRange();
+  }
+
+  private createOverlayLayer(
+    definition: OverlayDefinition,
+    pane: string
+  ): L.GeoJSON {
+    const showTooltip = (event: L.LeafletMouseEvent) =>
+      this.showTooltip(
+        this.buildTooltipWithOddDividers(
+          buildOverlayTooltipRows(
+            definition.name,
+            event.target.feature?.properties,
+            definition.tooltipProperties
+          )
+        ),
+        event.latlng
+      );
+
+    return L.geoJSON(undefined, {
+      pane,
+      style: () => definition.style,
+      interactive: definition.interaction !== "none",
+      pointToLayer: (_feature, latlng) =>
+        L.circleMarker(latlng, {
+          ...definition.style,
+          radius: 5,
+          pane,
+          interactive: definition.interaction !== "none",
+        }),
+      onEachFeature: (_feature, layer) => {
+        if (definition.interaction === "interactive") {
+          layer.on("click", (event: L.LeafletMouseEvent) => {
+            L.DomEvent.stopPropagation(event);
+            showTooltip(event);
+          });
+          layer.on("mouseover", (event: L.LeafletMouseEvent) =>
+            (event.target as L.Path).setStyle({
+              weight: (definition.style.weight || 1) + 1.5,
+            })
+          );
+          layer.on("mouseout", (event: L.LeafletMouseEvent) =>
+            (event.target as L.Path).setStyle(definition.style)
+          );
+        } else if (definition.interaction === "tooltip") {
+          layer.on("mouseover", showTooltip);
+          layer.on("mouseout", () => {
+            this.tooltipDiv.style.opacity = "0";
+          });
+        }
+      },
+    });
+  }
+
+  private async loadOverlay(overlay: OverlayLayer) {
+    const url = overlay.definition.url;
+    try {
+      const response = await this.requestMapFile(url, () => {
+        if (this.overlayLayers.includes(overlay)) {
+          this.loadOverlay(overlay);
+        }
+      });
+      const geoData = await readMapFile(
+        response,
+        detectMapFileFormat(url, response.headers.get("content-type")),
+        overlay.definition.topologyObject
+      );
+      // The definitions may have changed while the file was loading
+      if (this.overlayLayers.includes(overlay)) {
+        overlay.layer.clearLayers();
+        overlay.layer.addData(geoData as any);
+      }
+    } catch (error) {
+      // Like the disputed borders, an overlay that fails to load is left empty
+    }
+  }
+
+  // Show or hide an overlay from the layers control or a restored view
+  private setOverlayVisible(overlay: OverlayLayer, visible: boolean): void {
+    if (visible) {
+      this.hiddenLayers.delete(overlay.key);
+      if (!this.map.hasLayer(overlay.layer)) {
+        this.map.addLayer(overlay.layer);
+      }
+    } else {
+      this.hiddenLayers.add(overlay.key);
+      if (this.map.hasLayer(overlay.layer)) {
+        this.map.removeLayer(overlay.layer);
+      }
+    }
+  }
+
+  // Overlays outside their zoom range keep their layers control entry but are not drawn
+  private updateOverlayZoomRange(): void {
+    const zoom = this.map.getZoom();
+    this.overlayLayers.forEach((overlay) => {
+      const inRange =
+        zoom >= overlay.definition.minZoom &&
+        zoom <= overlay.definition.maxZoom;
+      this.map.getPane(overlay.pane).style.display = inRange ? "" : "none";
+    });
+  }
+
+  private async loadMapDataFromUrl(url: string) {
+    // Starting a load aborts the one in flight, so a slow earlier URL can never win
+    const load = this.baseMapLoads.start();
+    try {
+      this.showLoader("baseMap");
+      const response = await this.requestMapFile(
+        url,
+        () => {
+          // A newer file replaced the cached copy that is drawn now
+          if (this.settings.mapSettingsCard.baseMapUrl.value === url) {
+            this.loadMapDataFromUrl(url);
+          }
+        },
+        load.signal
+      );
+
+      // Validate GeoJSON structure, converting other formats to GeoJSON features first
+      const geoData = await readMapFile(
+        response,
+        this.getMapFileFormat(url, response),
+        this.settings.mapSettingsCard.baseMapTopologyObject.value
+      );
+      if (!load.isCurrent()) {
+        return;
+      }
+
+      // Store GeoJSON features for admin code lookup, and check them before drawing
+      // so a file the join cannot use is reported instead of leaving the map silently empty
+      this.geoJsonFeatures = geoData.features;
+      this.cachedAdminCodes = []; // Points may join to the new features
+      this.validateBaseMapFeatures(geoData);
+      this.updateDiagnosticsPanel();
+      if (!hasDrawableFeatures(this.featureQualityReport)) {
+        throw new MapLoadError(
+          "invalid",
+          `${getFeatureQualityErrors(this.featureQualityReport).join(
+            "; "
+          )} (${summarizeFeatureQuality(this.featureQualityReport)})`
+        );
+      }
+
+      // Add to base map layer, replacing the features of any earlier load
+      this.baseMapLayer.clearLayers();
+      this.baseMapLayer.addData(geoData);
+      if (this.isGeoJsonBaseMapDrawn()) {
+        this.map.addLayer(this.baseMapLayer);
+      }
+
+      // Mark map as loaded
+      this.mapLoaded = true;
+
+      // Load disputed borders from URL only after map is fully loaded
+      setTimeout(() => {
+        this.handleDisputedBordersUrlChange();
+      }, 100);
 
       // Force choropleth layer update when both GeoJSON and data are ready
       this.forceChoroplethUpdate();
 
       this.hideLoader("baseMap");
     } catch (error) {
+      if (!load.isCurrent()) {
+        return;
+      }
       this.hideLoader("baseMap");
-      this.showUrlErrorMessage(url, error.message);
+      const loadError = toMapLoadError(error);
+      if (loadError) {
+        this.showUrlErrorMessage(url, loadError);
+      }
     }
   }
 
+  // Abandon a GeoJSON base map load in flight, e.g. when the URL changes to vector tiles
+  private cancelBaseMapLoad(): void {
+    this.baseMapLoads.cancel();
+    this.hideLoader("baseMap");
+  }
+
   private updateSettingsFromPowerBI(options: VisualUpdateOptions) {
     // Access settings from the dataView metadata
     const dataView = options.dataViews[0];
@@ -1178,6 +2384,33 @@ export class Visual implements IVisual {
           }, 50);
         }
 
+        // Base map format, vector tile layer and TopoJSON object (a change reloads the base map)
+        const card = this.settings.mapSettingsCard;
+        const formatValue = mapSettings.baseMapFormat
+          ? String(mapSettings.baseMapFormat)
+          : "auto";
+        const newSourceLayer = mapSettings.vectorTileSourceLayer
+          ? String(mapSettings.vectorTileSourceLayer)
+          : "";
+        const newBaseMapObject = mapSettings.baseMapTopologyObject
+          ? String(mapSettings.baseMapTopologyObject)
+          : "";
+        const formatChanged =
+          formatValue !== card.baseMapFormat.value.value ||
+          newSourceLayer !== card.vectorTileSourceLayer.value ||
+          newBaseMapObject !== card.baseMapTopologyObject.value;
+        card.baseMapFormat.value =
+          card.baseMapFormat.items.find((item) => item.value === formatValue) ||
+          card.baseMapFormat.items[0];
+        card.vectorTileSourceLayer.value = newSourceLayer;
+        card.baseMapTopologyObject.value = newBaseMapObject;
+        if (formatChanged && (this as any).lastBaseMapUrl) {
+          setTimeout(() => {
+            this.baseMapLayer.clearLayers();
+            this.loadBaseMap();
+          }, 50);
+        }
+
         // Disputed borders URL
         const newDisputedUrl = mapSettings.disputedBordersUrl
           ? String(mapSettings.disputedBordersUrl)
@@ -1190,8 +2423,641 @@ export class Visual implements IVisual {
             this.handleDisputedBordersUrlChange();
           }, 50);
         }
+        const newDisputedObject = mapSettings.disputedBordersTopologyObject
+          ? String(mapSettings.disputedBordersTopologyObject)
+          : "";
+        if (
+          newDisputedObject !== card.disputedBordersTopologyObject.value &&
+          currentDisputedUrl === newDisputedUrl &&
+          newDisputedUrl !== "" &&
+          this.mapLoaded
+        ) {
+          setTimeout(() => {
+            this.loadDisputedBordersFromUrl(newDisputedUrl);
+          }, 50);
+        }
+        card.disputedBordersTopologyObject.value = newDisputedObject;
+
+        // Choropleth join keys (applied when the choropleth layer is rebuilt)
+        this.settings.mapSettingsCard.joinProperty.value =
+          mapSettings.joinProperty
+            ? String(mapSettings.joinProperty)
+            : "gaul_code";
+        this.settings.mapSettingsCard.alternateJoinKeys.value =
+          mapSettings.alternateJoinKeys
+            ? String(mapSettings.alternateJoinKeys)
+            : "";
+
+        // Location field layout (applied when the table data is processed)
+        this.settings.mapSettingsCard.locationDelimiter.value =
+          mapSettings.locationDelimiter !== undefined
+            ? String(mapSettings.locationDelimiter)
+            : ",";
+        this.settings.mapSettingsCard.locationFieldSchema.value =
+          mapSettings.locationFieldSchema
+            ? String(mapSettings.locationFieldSchema)
+            : "";
+      }
+    }
+
+    this.updateTileSettingsFromPowerBI(dataView);
+  }
+
+  // Read the raster tile settings and rebuild the tile layer when they change
+  private updateTileSettingsFromPowerBI(dataView: DataView) {
+    const mapSettings = dataView?.metadata?.objects?.mapSettings as any;
+    const card = this.settings.mapSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().mapSettingsCard;
+
+    card.tileUrlTemplate.value = mapSettings?.tileUrlTemplate
+      ? String(mapSettings.tileUrlTemplate)
+      : "";
+    card.tileSubdomains.value = mapSettings?.tileSubdomains
+      ? String(mapSettings.tileSubdomains)
+      : defaults.tileSubdomains.value;
+    card.tileAttribution.value = mapSettings?.tileAttribution
+      ? String(mapSettings.tileAttribution)
+      : "";
+    card.tileOpacity.value =
+      typeof mapSettings?.tileOpacity === "number"
+        ? Math.max(0, Math.min(100, mapSettings.tileOpacity))
+        : defaults.tileOpacity.value;
+    const tileModeValue = mapSettings?.tileMode
+      ? String(mapSettings.tileMode)
+      : defaults.tileMode.value.value;
+    card.tileMode.value =
+      card.tileMode.items.find((item) => item.value === tileModeValue) ||
+      defaults.tileMode.value;
+
+    const tileLayerKey = [
+      card.tileUrlTemplate.value,
+      card.tileSubdomains.value,
+      card.tileAttribution.value,
+      card.tileOpacity.value,
+      card.tileMode.value.value,
+    ].join("|");
+    if (tileLayerKey === this.tileLayerKey) {
+      return;
+    }
+    this.tileLayerKey = tileLayerKey;
+    this.updateTileLayer();
+  }
+
+  private updateTileLayer(): void {
+    if (this.tileLayer) {
+      this.map.removeLayer(this.tileLayer);
+    }
+    const card = this.settings.mapSettingsCard;
+    this.tileLayer = createRasterTileLayer({
+      urlTemplate: card.tileUrlTemplate.value,
+      subdomains: card.tileSubdomains.value,
+      attribution: card.tileAttribution.value,
+      opacity: card.tileOpacity.value / 100,
+    });
+    this.tileLayer?.addTo(this.map);
+
+    // The base map fill depends on whether there are tiles under it
+    this.baseMapLayer.setStyle(this.getBaseMapStyle());
+    this.vectorTileLayer?.restyle();
+
+    // "Instead" keeps the GeoJSON features for the choropleth join but does not draw them
+    if (this.isGeoJsonBaseMapDrawn()) {
+      if (this.mapLoaded && !this.map.hasLayer(this.baseMapLayer)) {
+        this.map.addLayer(this.baseMapLayer);
+      }
+    } else if (this.map.hasLayer(this.baseMapLayer)) {
+      this.map.removeLayer(this.baseMapLayer);
+    }
+
+    // Tiles alone are enough to show the data when there is no GeoJSON base map
+    if (!this.hasGeoJsonBaseMapUrl()) {
+      this.loadBaseMap();
+    }
+  }
+
+  private hasGeoJsonBaseMapUrl(): boolean {
+    return this.settings?.mapSettingsCard?.baseMapUrl?.value?.trim() !== "";
+  }
+
+  // True when a GeoJSON base map URL or a tile layer gives the data a background
+  private hasBaseMap(): boolean {
+    return this.hasGeoJsonBaseMapUrl() || this.tileLayer !== null;
+  }
+
+  private isGeoJsonBaseMapDrawn(): boolean {
+    return (
+      !this.tileLayer ||
+      this.settings.mapSettingsCard.tileMode.value.value !== "instead"
+    );
+  }
+
+  // Read the choropleth colouring settings from the dataView objects
+  private updateChoroplethSettingsFromPowerBI(dataView: DataView) {
+    const choroplethSettings = dataView?.metadata?.objects
+      ?.choroplethSettings as any;
+    const card = this.settings.choroplethSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().choroplethSettingsCard;
+
+    const aggregationValue = choroplethSettings?.aggregation
+      ? String(choroplethSettings.aggregation)
+      : defaults.aggregation.value.value;
+    card.aggregation.value =
+      card.aggregation.items.find((item) => item.value === aggregationValue) ||
+      defaults.aggregation.value;
+
+    const rampValue = choroplethSettings?.colorRamp
+      ? String(choroplethSettings.colorRamp)
+      : defaults.colorRamp.value.value;
+    card.colorRamp.value =
+      card.colorRamp.items.find((item) => item.value === rampValue) ||
+      defaults.colorRamp.value;
+
+    const methodValue = choroplethSettings?.classificationMethod
+      ? String(choroplethSettings.classificationMethod)
+      : defaults.classificationMethod.value.value;
+    card.classificationMethod.value =
+      card.classificationMethod.items.find(
+        (item) => item.value === methodValue
+      ) || defaults.classificationMethod.value;
+    card.classCount.value =
+      typeof choroplethSettings?.classCount === "number"
+        ? choroplethSettings.classCount
+        : defaults.classCount.value;
+    card.manualBreaks.value = choroplethSettings?.manualBreaks
+      ? String(choroplethSettings.manualBreaks)
+      : "";
+
+    (["minColor", "midColor", "maxColor", "noDataColor"] as const).forEach(
+      (name) => {
+        const color = choroplethSettings?.[name]?.solid?.color;
+        card[name].value = { value: color || defaults[name].value.value };
+      }
+    );
+  }
+
+  // Read the legend settings from the dataView objects
+  private updateLegendSettingsFromPowerBI(dataView: DataView) {
+    const legendSettings = dataView?.metadata?.objects?.legendSettings as any;
+    const card = this.settings.legendSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().legendSettingsCard;
+
+    card.show.value =
+      typeof legendSettings?.show === "boolean"
+        ? legendSettings.show
+        : defaults.show.value;
+    const positionValue = legendSettings?.position
+      ? String(legendSettings.position)
+      : defaults.position.value.value;
+    card.position.value =
+      card.position.items.find((item) => item.value === positionValue) ||
+      defaults.position.value;
+    card.title.value =
+      legendSettings?.title !== undefined
+        ? String(legendSettings.title)
+        : defaults.title.value;
+  }
+
+  // Read the selection tool settings from the dataView objects
+  private updateSelectionSettingsFromPowerBI(dataView: DataView) {
+    const selectionSettings = dataView?.metadata?.objects
+      ?.selectionSettings as any;
+    const card = this.settings.selectionSettingsCard;
+
+    card.showTools.value =
+      typeof selectionSettings?.showTools === "boolean"
+        ? selectionSettings.showTools
+        : true;
+    card.includeRegions.value =
+      typeof selectionSettings?.includeRegions === "boolean"
+        ? selectionSettings.includeRegions
+        : false;
+    this.selectionTools.setEnabled(card.showTools.value);
+  }
+
+  // Read the map view filter settings from the dataView objects
+  private updateViewFilterSettingsFromPowerBI(dataView: DataView) {
+    const viewFilterSettings = dataView?.metadata?.objects
+      ?.viewFilterSettings as any;
+    const card = this.settings.viewFilterSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().viewFilterSettingsCard;
+
+    card.enabled.value =
+      typeof viewFilterSettings?.enabled === "boolean"
+        ? viewFilterSettings.enabled
+        : defaults.enabled.value;
+    const filterOnValue = viewFilterSettings?.filterOn
+      ? String(viewFilterSettings.filterOn)
+      : defaults.filterOn.value.value;
+    card.filterOn.value =
+      card.filterOn.items.find((item) => item.value === filterOnValue) ||
+      defaults.filterOn.value;
+
+    // The filter itself is saved with the report, so a restored toggle only needs its state.
+    // Only a changed value is applied: updates sent before the host saved a click still
+    // carry the previous state.
+    const activeSaved = viewFilterSettings?.active === true;
+    if (activeSaved !== this.viewFilterActiveSaved) {
+      this.viewFilterActiveSaved = activeSaved;
+      this.viewFilterControl.setActive(activeSaved && card.enabled.value);
+    }
+
+    if (card.enabled.value) {
+      if (!(this.viewFilterControl as any)._map) {
+        this.viewFilterControl.addTo(this.map);
+      }
+    } else if ((this.viewFilterControl as any)._map) {
+      if (this.viewFilterControl.isActive()) {
+        this.viewFilterControl.setActive(false);
+        this.persistViewFilterActive(false);
+        this.clearMapViewFilter();
+      }
+      this.viewFilterControl.remove();
+    }
+  }
+
+  // Save the toggle state in a viewFilterSettings property the formatting pane does not show
+  private persistViewFilterActive(active: boolean): void {
+    this.host.persistProperties({
+      merge: [
+        {
+          objectName: "viewFilterSettings",
+          selector: null,
+          properties: { active },
+        },
+      ],
+    });
+  }
+
+  // Filter the report to what is inside the current map view
+  private applyMapViewFilter(): void {
+    if (!this.viewFilterControl.isActive()) {
+      return;
+    }
+    const columns = this.currentDataView?.table?.columns;
+    if (!columns) {
+      return;
+    }
+
+    const filterOn = this.settings.viewFilterSettingsCard.filterOn.value.value;
+    const filters =
+      filterOn === "coordinates"
+        ? this.buildCoordinateViewFilters(columns)
+        : this.buildAdminCodeViewFilters(columns);
+    // An empty In filter would hide everything, so nothing to filter on clears the filter
+    if (filters.length === 0) {
+      this.clearMapViewFilter();
+      return;
+    }
+
+    this.host.applyJsonFilter(
+      filters,
+      "general",
+      "filter",
+      powerbiVisualsApi.FilterAction.merge
+    );
+  }
+
+  // Latitude / longitude range filters for the map bounds
+  private buildCoordinateViewFilters(
+    columns: powerbiVisualsApi.DataViewMetadataColumn[]
+  ): powerbiVisualsApi.IFilter[] {
+    const latTarget = getFilterTarget(
+      columns[this.getColumnIndexByRole(columns, "latitude")]
+    );
+    const lngTarget = getFilterTarget(
+      columns[this.getColumnIndexByRole(columns, "longitude")]
+    );
+    if (!latTarget || !lngTarget) {
+      // Coordinates only come from the combined Data field, filter on regions instead
+      return this.buildAdminCodeViewFilters(columns);
+    }
+
+    const bounds = this.map.getBounds();
+    const filters = [
+      buildRangeFilter(
+        latTarget,
+        Math.max(-90, bounds.getSouth()),
+        Math.min(90, bounds.getNorth())
+      ),
+    ];
+    // Skip the longitude condition once the whole world is in view
+    if (bounds.getEast() - bounds.getWest() < 360) {
+      filters.push(
+        buildRangeFilter(
+          lngTarget,
+          Math.max(-180, bounds.getWest()),
+          Math.min(180, bounds.getEast())
+        )
+      );
+    }
+    return filters;
+  }
+
+  // Admin code filter for the choropleth regions intersecting the map bounds
+  private buildAdminCodeViewFilters(
+    columns: powerbiVisualsApi.DataViewMetadataColumn[]
+  ): powerbiVisualsApi.IFilter[] {
+    const adminTarget = getFilterTarget(
+      columns[this.getColumnIndexByRole(columns, "adminCode")]
+    );
+    if (!adminTarget || !this.choroplethLayer) {
+      return [];
+    }
+
+    const bounds = this.map.getBounds();
+    const adminCodes = new Set<string>();
+    this.choroplethLayer.eachLayer((layer) => {
+      const adminCode = (layer as any).regionAdminCode;
+      if (
+        adminCode !== undefined &&
+        bounds.intersects((layer as L.Polygon).getBounds())
+      ) {
+        adminCodes.add(adminCode);
+      }
+    });
+    return adminCodes.size > 0
+      ? [buildInFilter(adminTarget, Array.from(adminCodes))]
+      : [];
+  }
+
+  private clearMapViewFilter(): void {
+    this.host.applyJsonFilter(
+      null,
+      "general",
+      "filter",
+      powerbiVisualsApi.FilterAction.remove
+    );
+  }
+
+  // Read the zoom settings from the dataView objects and apply them to the map
+  private updateZoomSettingsFromPowerBI(dataView: DataView) {
+    const zoomSettings = dataView?.metadata?.objects?.zoomSettings as any;
+    const card = this.settings.zoomSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().zoomSettingsCard;
+
+    // Leaflet's zoom levels run from 0 to about 22 for most tile sets
+    const readZoom = (value: any, fallback: number) =>
+      typeof value === "number"
+        ? Math.max(0, Math.min(22, Math.round(value)))
+        : fallback;
+    card.minZoom.value = readZoom(
+      zoomSettings?.minZoom,
+      defaults.minZoom.value
+    );
+    card.maxZoom.value = Math.max(
+      card.minZoom.value,
+      readZoom(zoomSettings?.maxZoom, defaults.maxZoom.value)
+    );
+    (["scrollWheelZoom", "boxZoom"] as const).forEach((name) => {
+      card[name].value =
+        typeof zoomSettings?.[name] === "boolean"
+          ? zoomSettings[name]
+          : defaults[name].value;
+    });
+    const doubleClickValue = zoomSettings?.doubleClick
+      ? String(zoomSettings.doubleClick)
+      : defaults.doubleClick.value.value;
+    card.doubleClick.value =
+      card.doubleClick.items.find((item) => item.value === doubleClickValue) ||
+      defaults.doubleClick.value;
+
+    this.map.setMinZoom(card.minZoom.value);
+    this.map.setMaxZoom(card.maxZoom.value);
+    this.setMapHandlerEnabled(
+      this.map.scrollWheelZoom,
+      card.scrollWheelZoom.value
+    );
+    this.setMapHandlerEnabled(this.map.boxZoom, card.boxZoom.value);
+    this.setMapHandlerEnabled(
+      this.map.doubleClickZoom,
+      card.doubleClick.value.value === "zoomIn"
+    );
+
+    // Clustering stays on up to the maximum zoom so pins at identical coordinates can
+    // still be spiderfied there; the cluster group only reads this when added
+    const clusterOptions = this.markerClusterGroup
+      .options as L.MarkerClusterGroupOptions;
+    if (clusterOptions.disableClusteringAtZoom !== card.maxZoom.value + 1) {
+      clusterOptions.disableClusteringAtZoom = card.maxZoom.value + 1;
+      if (this.map.hasLayer(this.markerClusterGroup)) {
+        this.map.removeLayer(this.markerClusterGroup);
+        this.markerClusterGroup.addTo(this.map);
+      }
+    }
+  }
+
+  private setMapHandlerEnabled(handler: L.Handler, enabled: boolean): void {
+    if (enabled) {
+      handler.enable();
+    } else {
+      handler.disable();
+    }
+  }
+
+  // Read the map view settings and restore the view saved in the viewState object
+  private updateViewSettingsFromPowerBI(dataView: DataView) {
+    const viewSettings = dataView?.metadata?.objects?.viewSettings as any;
+    const card = this.settings.viewSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().viewSettingsCard;
+
+    const initialViewValue = viewSettings?.initialView
+      ? String(viewSettings.initialView)
+      : defaults.initialView.value.value;
+    card.initialView.value =
+      card.initialView.items.find((item) => item.value === initialViewValue) ||
+      defaults.initialView.value;
+    (["fixedLatitude", "fixedLongitude", "fixedZoom"] as const).forEach(
+      (name) => {
+        card[name].value =
+          typeof viewSettings?.[name] === "number"
+            ? viewSettings[name]
+            : defaults[name].value;
       }
+    );
+    (["rememberView", "showLayerToggles"] as const).forEach((name) => {
+      card[name].value =
+        typeof viewSettings?.[name] === "boolean"
+          ? viewSettings[name]
+          : defaults[name].value;
+    });
+
+    if (card.showLayerToggles.value) {
+      if (!(this.layerToggleControl as any)._map) {
+        this.layerToggleControl.addTo(this.map);
+      }
+    } else {
+      this.layerToggleControl.remove();
+    }
+
+    // Changing the initial view in the formatting pane applies it straight away
+    const initialViewKey = [
+      card.initialView.value.value,
+      card.fixedLatitude.value,
+      card.fixedLongitude.value,
+      card.fixedZoom.value,
+    ].join("|");
+    if (this.initialViewKey && this.initialViewKey !== initialViewKey) {
+      this.initialViewApplied = false;
+    }
+    this.initialViewKey = initialViewKey;
+
+    // Restore the saved view on load, or when a bookmark or another editor changed it
+    const savedView = card.rememberView.value
+      ? parseMapViewState(dataView?.metadata?.objects?.viewState)
+      : null;
+    if (
+      savedView &&
+      (!this.savedViewState || !isSameMapView(savedView, this.savedViewState))
+    ) {
+      this.restoreMapView(savedView);
+    }
+    this.savedViewState = savedView;
+  }
+
+  private restoreMapView(view: MapViewState): void {
+    TOGGLEABLE_LAYERS.forEach((layer) =>
+      this.setLayerVisible(layer.key, !view.hiddenLayers.includes(layer.key))
+    );
+    // Overlays not loaded yet pick up their saved visibility when they are built
+    Array.from(this.hiddenLayers)
+      .filter((key) => key.startsWith("overlay:"))
+      .forEach((key) => this.hiddenLayers.delete(key));
+    view.hiddenLayers
+      .filter((key) => key.startsWith("overlay:"))
+      .forEach((key) => this.hiddenLayers.add(key));
+    this.restoringView = true;
+    try {
+      this.overlayLayers.forEach((overlay) =>
+        this.setOverlayVisible(overlay, !this.hiddenLayers.has(overlay.key))
+      );
+      this.map.setView([view.latitude, view.longitude], view.zoom, {
+        animate: false,
+      });
+    } finally {
+      this.restoringView = false;
+    }
+    this.initialViewApplied = true;
+  }
+
+  // Save the current centre, zoom and hidden layers into the viewState object
+  private persistMapView(): void {
+    if (
+      this.restoringView ||
+      !this.currentDataView ||
+      !this.settings.viewSettingsCard.rememberView.value
+    ) {
+      return;
+    }
+    const center = this.map.getCenter();
+    const view: MapViewState = {
+      latitude: center.lat,
+      longitude: center.lng,
+      zoom: this.map.getZoom(),
+      hiddenLayers: Array.from(this.hiddenLayers),
+    };
+    if (this.savedViewState && isSameMapView(view, this.savedViewState)) {
+      return;
+    }
+    this.savedViewState = view;
+    this.host.persistProperties({
+      merge: [
+        {
+          objectName: "viewState",
+          selector: null,
+          properties: {
+            latitude: view.latitude,
+            longitude: view.longitude,
+            zoom: view.zoom,
+            hiddenLayers: view.hiddenLayers.join(","),
+          },
+        },
+      ],
+    });
+  }
+
+  // Show or hide one of TOGGLEABLE_LAYERS by hiding its pane
+  private setLayerVisible(key: string, visible: boolean): void {
+    const layer = TOGGLEABLE_LAYERS.find((item) => item.key === key);
+    if (!layer) {
+      return;
+    }
+    if (visible) {
+      this.hiddenLayers.delete(key);
+    } else {
+      this.hiddenLayers.add(key);
+    }
+    this.map.getPane(layer.pane).style.display = visible ? "" : "none";
+    this.layerToggleControl.setVisible(key, visible);
+    // The heatmap canvas sits in the overlay pane, so it is removed instead
+    if (key === "markers") {
+      this.updateHeatmapLayer(this.currentSelection);
+    }
+    this.updateLegend();
+  }
+
+  // Move the map to the initial view; false while the bounds to fit are not known yet
+  private applyInitialView(): boolean {
+    const card = this.settings.viewSettingsCard;
+    const mode = card.initialView.value.value;
+    if (mode === "fixed") {
+      this.map.setView(
+        [card.fixedLatitude.value, card.fixedLongitude.value],
+        card.fixedZoom.value
+      );
+      return true;
+    }
+
+    const bounds =
+      mode === "fitSelectedRegion"
+        ? this.getSelectedRegionBounds()
+        : this.getDataBounds();
+    if (!bounds.isValid()) {
+      return false;
     }
+    this.map.fitBounds(bounds, { padding: [20, 20] });
+    return true;
+  }
+
+  // Apply the initial view once per load, or again after its settings changed
+  private ensureInitialView(): void {
+    if (!this.initialViewApplied) {
+      this.initialViewApplied = this.applyInitialView();
+    }
+  }
+
+  // Bounds of the markers, row geometries and matched regions
+  private getDataBounds(): L.LatLngBounds {
+    const bounds = L.latLngBounds([]);
+    this.markers
+      .filter((marker) => this.markerClusterGroup.hasLayer(marker))
+      .forEach((marker) => bounds.extend(marker.getLatLng()));
+    bounds.extend(this.geometryLayer.getBounds());
+    bounds.extend(this.bubbleLayer.getBounds());
+    if (this.choroplethLayer) {
+      bounds.extend(this.choroplethLayer.getBounds());
+    }
+    return bounds;
+  }
+
+  // Bounds of the selected regions, or of all regions in the filter context when none is selected
+  private getSelectedRegionBounds(): L.LatLngBounds {
+    const bounds = L.latLngBounds([]);
+    if (!this.choroplethLayer) {
+      return bounds;
+    }
+    const regionLayers = this.choroplethLayer.getLayers() as L.Polygon[];
+    const selectedLayers = regionLayers.filter((layer) =>
+      this.getRegionSelectionIds((layer as any).regionAdminCode).some(
+        (regionId) =>
+          this.currentSelection.some((id) =>
+            this.isSameSelectionId(id, regionId)
+          )
+      )
+    );
+    (selectedLayers.length > 0 ? selectedLayers : regionLayers).forEach(
+      (layer) => bounds.extend(layer.getBounds())
+    );
+    return bounds;
   }
 
   private showBaseMapMessage() {
@@ -1206,8 +3072,8 @@ export class Visual implements IVisual {
             Setup Required
           </div>
           <div style="font-size: 12px; color: #666; line-height: 1.6;">
-            <div style="margin-bottom: 8px;"><strong>Step 1:</strong> Add Data field to your visual</div>
-            <div style="margin-bottom: 8px;"><strong>Step 2:</strong> Add a Base Map GeoJSON URL in Map Settings</div>
+            <div style="margin-bottom: 8px;"><strong>Step 1:</strong> Add Latitude and Longitude (or the combined Data field) to your visual</div>
+            <div style="margin-bottom: 8px;"><strong>Step 2:</strong> Add a Base Map GeoJSON URL or a tile layer URL template in Map Settings</div>
             <div style="font-size: 11px; color: #888; margin-top: 10px;">
               For best results, add your data fields first, then configure the map URL.
             </div>
@@ -1235,7 +3101,7 @@ export class Visual implements IVisual {
           </div>
           <div style="font-size: 12px; color: #666; line-height: 1.6;">
             <div style="margin-bottom: 8px;">✅ Data fields added successfully</div>
-            <div style="margin-bottom: 8px;"><strong>Next:</strong> Add a Base Map GeoJSON URL in Map Settings</div>
+            <div style="margin-bottom: 8px;"><strong>Next:</strong> Add a Base Map GeoJSON URL or a tile layer URL template in Map Settings</div>
             <div style="font-size: 11px; color: #888; margin-top: 10px;">
               Once you provide the URL, your map and markers will appear.
             </div>
@@ -1261,31 +3127,33 @@ export class Visual implements IVisual {
     }
   }
 
-  private showUrlErrorMessage(url: string, errorMessage: string) {
+  private showUrlErrorMessage(url: string, error: MapLoadError) {
     // Clear any existing base map
     this.baseMapLayer.clearLayers();
 
-    // Show error message in the empty state div
+    // Show error message in the empty state div; HTTP, CORS, timeout and parse failures get their own tips
     if (this.emptyStateDiv) {
+      const description = describeMapLoadError(error);
+      const tips = description.tips
+        .map((tip) => `• ${escapeHtml(tip)}<br/>`)
+        .join("");
       this.emptyStateDiv.innerHTML = `
         <div style="text-align: center; padding: 20px;">
           <div style="font-size: 14px; font-weight: bold; margin-bottom: 10px; color: #d32f2f;">
             Error Loading Map
           </div>
           <div style="font-size: 12px; color: #666; line-height: 1.4; margin-bottom: 10px;">
-            Failed to load GeoJSON from URL:
+            ${escapeHtml(description.title)}:
           </div>
           <div style="font-size: 10px; color: #999; word-break: break-all; margin-bottom: 10px;">
-            ${url}
+            ${escapeHtml(url)}
           </div>
           <div style="font-size: 11px; color: #d32f2f; font-weight: bold;">
-            ${errorMessage}
+            ${escapeHtml(description.detail)}
           </div>
           <div style="font-size: 11px; color: #666; margin-top: 10px;">
             <strong>Tips:</strong><br/>
-            • Ensure the URL is publicly accessible<br/>
-            • Use direct download links (not Google Drive sharing links)<br/>
-            • Verify the URL contains valid GeoJSON data
+            ${tips}
           </div>
         </div>
       `;
@@ -1316,40 +3184,118 @@ export class Visual implements IVisual {
     }
   }
 
-  private checkAdminCodeMatch(adminCode: any): boolean {
-    if (!adminCode || this.geoJsonFeatures.length === 0) {
-      return false;
+  // Get the join property followed by the alternate join keys from settings
+  private getJoinProperties(): string[] {
+    const joinProperty =
+      this.settings?.mapSettingsCard?.joinProperty?.value?.trim() ||
+      "gaul_code";
+    const alternateKeys = (
+      this.settings?.mapSettingsCard?.alternateJoinKeys?.value || ""
+    )
+      .split(",")
+      .map((key) => key.trim())
+      .filter((key) => key !== "" && key !== joinProperty);
+    return [joinProperty, ...alternateKeys];
+  }
+
+  // Normalise a join value so that "AFG", "afg " and 4 / "4" compare equal
+  private normalizeJoinValue(value: any): string {
+    return String(value).trim().toLowerCase();
+  }
+
+  // Get the normalised join values of a feature, in join property order
+  private getFeatureJoinValues(feature: any): string[] {
+    const properties = feature?.properties;
+    if (!properties) {
+      return [];
     }
+    return this.getJoinProperties()
+      .map((key) => properties[key])
+      .filter((value) => value !== undefined && value !== null && value !== "")
+      .map((value) => this.normalizeJoinValue(value));
+  }
 
-    // Convert adminCode to string for comparison
-    const adminCodeStr = String(adminCode);
+  private featureMatchesAdminCode(feature: any, adminCode: any): boolean {
+    if (adminCode === undefined || adminCode === null || adminCode === "") {
+      return false;
+    }
+    return this.getFeatureJoinValues(feature).includes(
+      this.normalizeJoinValue(adminCode)
+    );
+  }
 
-    // Show first few gaul_code values for debugging
-    this.geoJsonFeatures.slice(0, 5).forEach((feature, index) => {
-      const gaulCode = feature.properties?.gaul_code;
-    });
+  // Find the data admin code that a feature matches on its join property or alternate keys
+  private getMatchedAdminCode(
+    feature: any,
+    adminCodes: string[]
+  ): string | null {
+    const joinValues = this.getFeatureJoinValues(feature);
+    for (const joinValue of joinValues) {
+      const adminCode = adminCodes.find(
+        (code) => this.normalizeJoinValue(code) === joinValue
+      );
+      if (adminCode !== undefined) {
+        return adminCode;
+      }
+    }
+    return null;
+  }
 
-    // Check if any GeoJSON feature has a matching gaul_code
-    const match = this.geoJsonFeatures.find((feature) => {
-      const gaulCode = feature.properties?.gaul_code;
-      const gaulCodeStr = String(gaulCode);
-      const isMatch = gaulCode && gaulCodeStr === adminCodeStr;
+  private checkAdminCodeMatch(adminCode: any): boolean {
+    if (!adminCode || this.geoJsonFeatures.length === 0) {
+      return false;
+    }
 
-      return isMatch;
-    });
+    // Check if any GeoJSON feature matches on the join property or alternate keys
+    return this.countFeaturesMatchingAdminCode(adminCode) > 0;
+  }
 
-    if (match) {
-      return true;
+  // Number of GeoJSON features an admin code joins to; more than one makes the code ambiguous
+  private countFeaturesMatchingAdminCode(adminCode: any): number {
+    const joinKey = this.getJoinProperties().join(",");
+    if (
+      !this.featureJoinIndex ||
+      this.featureJoinIndexKey !== joinKey ||
+      this.featureJoinIndexFeatures !== this.geoJsonFeatures
+    ) {
+      this.featureJoinIndex = indexFeaturesByJoinValue(
+        this.geoJsonFeatures,
+        (feature) => this.getFeatureJoinValues(feature)
+      );
+      this.featureJoinIndexKey = joinKey;
+      this.featureJoinIndexFeatures = this.geoJsonFeatures;
     }
+    return this.featureJoinIndex.get(this.normalizeJoinValue(adminCode)) || 0;
+  }
 
-    return false;
+  // List every admin code of the data with its match status for the diagnostics panel.
+  // Vector tile base maps only load the features in view, so they get no report.
+  private updateAdminCodeCoverage(): void {
+    const hasRows = (this.currentDataView?.table?.rows?.length || 0) > 0;
+    this.adminCodeCoverage =
+      hasRows && !this.vectorTileLayer && this.geoJsonFeatures.length > 0
+        ? buildAdminCodeCoverage(
+            this.getAdminCodesFromData(),
+            (adminCode) => this.normalizeJoinValue(adminCode),
+            (adminCode) => this.countFeaturesMatchingAdminCode(adminCode)
+          )
+        : null;
+    this.updateDiagnosticsPanel();
   }
 
   // Choropleth styling method
   private getChoroplethStyle(feature: any): L.PathOptions {
     // Since we only add matching features to the choropleth layer, all features should be styled as matches
+    let fillColor = "#455E6F"; // Blue-gray for all choropleth features when no Value field is bound
+    if (this.choroplethValueLabel !== null) {
+      const value = this.getRegionValue(feature);
+      fillColor =
+        value !== undefined && this.choroplethColorScale
+          ? this.choroplethColorScale(value)
+          : this.settings.choroplethSettingsCard.noDataColor.value.value;
+    }
     return {
-      fillColor: "#455E6F", // Blue-gray for all choropleth features (they are all matches)
+      fillColor,
       weight: 1,
       opacity: 1,
       fillOpacity: 1,
@@ -1357,33 +3303,497 @@ export class Visual implements IVisual {
     };
   }
 
+  // Get the summed Value measure of the data rows matching a feature
+  private getRegionValue(feature: any): number | undefined {
+    const adminCode = this.vectorTileLayer
+      ? this.getVectorTileAdminCode(feature.properties)
+      : this.getMatchedAdminCode(feature, this.cachedAdminCodes);
+    if (adminCode === null) {
+      return undefined;
+    }
+    return this.regionValues.get(this.normalizeJoinValue(adminCode));
+  }
+
+  private getColorRampOptions(): ColorRampOptions {
+    const card = this.settings.choroplethSettingsCard;
+    return {
+      ramp: String(card.colorRamp.value.value),
+      minColor: card.minColor.value.value,
+      midColor: card.midColor.value.value,
+      maxColor: card.maxColor.value.value,
+    };
+  }
+
+  // Aggregate the rows of each region, placed by admin code or by coordinates, and build the colour scale over the results
+  private updateRegionValues(): void {
+    this.regionValues = new Map();
+    this.regionStats = new Map();
+    this.regionCountryNames = new Map();
+    this.choroplethValueLabel = null;
+    this.choroplethColorScale = null;
+    this.choroplethClassBreaks = [];
+
+    const columns = this.currentDataView?.table?.columns;
+    const rows = this.currentDataView?.table?.rows;
+    if (!columns || !rows) {
+      return;
+    }
+    const valueColIndex = this.getColumnIndexByRole(columns, "choroplethValue");
+    const aggregation = String(
+      this.settings.choroplethSettingsCard.aggregation.value.value
+    ) as AggregationMethod;
+    if (usesValueField(aggregation) && valueColIndex < 0) {
+      return;
+    }
+    this.choroplethValueLabel = getAggregationLabel(
+      aggregation,
+      valueColIndex >= 0 ? columns[valueColIndex].displayName : ""
+    );
+
+    const records: RegionRecord[] = [];
+    rows.forEach((row) => {
+      const info = this.getLatLngAdminForRow(row, columns);
+      if (!info.adminCode) {
+        return;
+      }
+      const region = this.normalizeJoinValue(info.adminCode);
+      if (info.country && !this.regionCountryNames.has(region)) {
+        this.regionCountryNames.set(region, info.country);
+      }
+      records.push({
+        region,
+        id:
+          info.obsId !== undefined && info.obsId !== null
+            ? String(info.obsId)
+            : undefined,
+        value:
+          valueColIndex >= 0
+            ? parseFloat(String(row[valueColIndex]))
+            : undefined,
+      });
+    });
+    this.regionStats = aggregateByRegion(records);
+    this.regionStats.forEach((stats, key) => {
+      const value = getAggregateValue(stats, aggregation);
+      if (value !== undefined) {
+        this.regionValues.set(key, value);
+      }
+    });
+
+    if (this.regionValues.size === 0) {
+      return;
+    }
+
+    const values = Array.from(this.regionValues.values());
+    const card = this.settings.choroplethSettingsCard;
+    const method = String(
+      card.classificationMethod.value.value
+    ) as ClassificationMethod;
+    if (method === "continuous") {
+      this.choroplethColorScale = createValueColorScale(
+        values,
+        this.getColorRampOptions()
+      );
+      return;
+    }
+
+    this.choroplethClassBreaks = computeClassBreaks(
+      values,
+      method,
+      Math.min(9, Math.max(2, card.classCount.value || 5)),
+      parseManualBreaks(card.manualBreaks.value)
+    );
+    this.choroplethColorScale = createClassColorScale(
+      this.choroplethClassBreaks,
+      this.getColorRampOptions()
+    );
+  }
+
+  // Rebuild the legend from the layers currently on the map
+  private updateLegend(): void {
+    if (!this.legendControl) {
+      return;
+    }
+    const card = this.settings.legendSettingsCard;
+    if (!card.show.value) {
+      this.legendControl.remove();
+      return;
+    }
+
+    this.legendControl.setPosition(
+      String(card.position.value.value) as L.ControlPosition
+    );
+    if (!(this.legendControl as any)._map) {
+      this.legendControl.addTo(this.map);
+    }
+    this.legendControl.update(card.title.value, [
+      this.buildChoroplethLegendSection(),
+      this.buildMarkerLegendSection(),
+      this.buildBubbleLegendSection(),
+      this.buildDisputedBordersLegendSection(),
+    ]);
+  }
+
+  // Legend entries for the choropleth classes, the continuous ramp or plain matches
+  private buildChoroplethLegendSection(): LegendSection {
+    const section: LegendSection = {
+      title: this.choroplethValueLabel || "Regions",
+      items: [],
+    };
+    const hasRegions = this.vectorTileLayer
+      ? this.vectorTileAdminCodes.size > 0
+      : !!this.choroplethLayer &&
+        this.map.hasLayer(this.choroplethLayer) &&
+        this.choroplethLayer.getLayers().length > 0;
+    if (!hasRegions || this.hiddenLayers.has("regions")) {
+      return section;
+    }
+
+    if (this.choroplethValueLabel === null) {
+      section.items.push({
+        label: "Matched region",
+        symbol: "fill",
+        color: "#455E6F",
+      });
+      return section;
+    }
+
+    const breaks = this.choroplethClassBreaks;
+    const format = (value: number) => value.toLocaleString();
+    if (breaks.length >= 2) {
+      const colors = getClassColors(
+        breaks.length - 1,
+        this.getColorRampOptions()
+      );
+      colors.forEach((color, index) => {
+        section.items.push({
+          label: `${format(breaks[index])} – ${format(breaks[index + 1])}`,
+          symbol: "fill",
+          color,
+        });
+      });
+    } else if (this.regionValues.size > 0) {
+      const values = Array.from(this.regionValues.values());
+      section.items.push({
+        label: `${format(Math.min(...values))} – ${format(Math.max(...values))}`,
+        symbol: "gradient",
+        color: "",
+        gradientColors: getClassColors(5, this.getColorRampOptions()),
+      });
+    }
+
+    const hasNoDataRegion = this.choroplethLayer
+      .getLayers()
+      .some(
+        (layer) => this.getRegionValue((layer as any).feature) === undefined
+      );
+    if (hasNoDataRegion) {
+      section.items.push({
+        label: "No data",
+        symbol: "fill",
+        color: this.settings.choroplethSettingsCard.noDataColor.value.value,
+      });
+    }
+    return section;
+  }
+
+  // Legend entries for the marker pins, row geometries and Ref ID dimming
+  private buildMarkerLegendSection(): LegendSection {
+    const items: LegendItem[] = [];
+    const hasMarkers =
+      this.map.hasLayer(this.markerClusterGroup) &&
+      !this.hiddenLayers.has("markers") &&
+      this.markers.some((marker) => this.markerClusterGroup.hasLayer(marker));
+    const hasGeometries =
+      this.map.hasLayer(this.geometryLayer) &&
+      !this.hiddenLayers.has("geometries") &&
+      this.geometryLayers.length > 0;
+    const hasDimmed =
+      (hasMarkers &&
+        this.markers.some(
+          (marker) => (marker as any).refIdFiltered === false
+        )) ||
+      (hasGeometries &&
+        this.geometryLayers.some(
+          (layer) => (layer as any).refIdFiltered === false
+        ));
+
+    if (hasMarkers) {
+      items.push({ label: "Observation", symbol: "pin", color: "#F9B112" });
+    }
+    if (this.heatLayer && this.map.hasLayer(this.heatLayer)) {
+      items.push({
+        label: "Low – high density",
+        symbol: "gradient",
+        color: "",
+        gradientColors: getHeatmapGradientColors(
+          this.getSelectedHeatmapGradient()
+        ),
+      });
+    }
+    if (hasGeometries) {
+      items.push({
+        label: "Geometry",
+        symbol: "fill",
+        color: "#F9B112",
+        opacity: 0.4,
+      });
+    }
+    if (hasDimmed) {
+      items.push({ label: "Ref ID active", symbol: "pin", color: "#F9B112" });
+      items.push({
+        label: "Ref ID dimmed",
+        symbol: "pin",
+        color: "#F9B112",
+        opacity: 0.3,
+      });
+    }
+    return { title: "Observations", items };
+  }
+
+  // Range of the values the bubbles are sized by
+  private buildBubbleLegendSection(): LegendSection {
+    const section: LegendSection = { title: this.bubbleSizeLabel, items: [] };
+    if (
+      this.bubbleMarkers.length === 0 ||
+      !this.map.hasLayer(this.bubbleLayer) ||
+      this.hiddenLayers.has("bubbles")
+    ) {
+      return section;
+    }
+    const values = this.bubbleMarkers.map(
+      (circle) => ((circle as any).bubble as Bubble).value
+    );
+    const format = (value: number) => value.toLocaleString();
+    section.items.push({
+      label: `${format(Math.min(...values))} – ${format(Math.max(...values))}`,
+      symbol: "circle",
+      color: this.settings.bubbleSettingsCard.color.value.value,
+      opacity: 0.6,
+    });
+    return section;
+  }
+
+  private buildDisputedBordersLegendSection(): LegendSection {
+    const hasDisputedBorders =
+      this.map.hasLayer(this.disputedBordersLayer) &&
+      !this.hiddenLayers.has("disputedBorders") &&
+      this.disputedBordersLayer.getLayers().length > 0;
+    return {
+      title: "Boundaries",
+      items: hasDisputedBorders
+        ? [{ label: "Disputed border", symbol: "dashedLine", color: "#CBCBCB" }]
+        : [],
+    };
+  }
+
   // Choropleth feature handler
   private onEachChoroplethFeature(feature: any, layer: L.Layer): void {
     // Use cached admin codes instead of calling getAdminCodesFromData repeatedly
     const adminCodes = this.cachedAdminCodes;
-    const gaulCode = feature.properties?.gaul0_code;
-    const isMatch = adminCodes.includes(String(gaulCode));
-
-    if (isMatch) {
-      // Get choropleth tooltip data for this region
-      const choroplethTooltipData =
-        this.getChoroplethTooltipDataForRegion(gaulCode);
-      const regionName =
-        feature.properties?.gaul0_name ||
-        feature.properties?.disp_en ||
-        "Unknown Region";
-
-      layer.on("click", (e) => {
+    const adminCode = this.getMatchedAdminCode(feature, adminCodes);
+
+    if (adminCode !== null) {
+      (layer as any).regionAdminCode = adminCode;
+
+      layer.on("click", (e: L.LeafletMouseEvent) => {
         // Show tooltip on click with choropleth data using same format as markers
-        const tooltipContent = this.buildChoroplethTooltipContent(gaulCode);
+        const tooltipContent = this.buildChoroplethTooltipContent(adminCode);
         this.showTooltip(tooltipContent, e.latlng);
 
+        // Cross-filter the report by every row of this region
+        this.selectRegion(adminCode, e.originalEvent);
+
         // Stop event propagation to prevent map click
         L.DomEvent.stopPropagation(e);
       });
     }
   }
 
+  // Group the row selection IDs by the admin code they belong to
+  private buildRegionSelectionIds(): void {
+    this.regionSelectionIds = new Map();
+    const columns = this.currentDataView?.table?.columns;
+    const rows = this.currentDataView?.table?.rows;
+    if (!columns || !rows) {
+      return;
+    }
+
+    rows.forEach((row, index) => {
+      const adminCode = this.getLatLngAdminForRow(row, columns).adminCode;
+      const selectionId = this.selectionIds[index];
+      if (!adminCode || !selectionId) {
+        return;
+      }
+      const key = this.normalizeJoinValue(adminCode);
+      if (!this.regionSelectionIds.has(key)) {
+        this.regionSelectionIds.set(key, []);
+      }
+      this.regionSelectionIds.get(key).push(selectionId);
+    });
+  }
+
+  private getRegionSelectionIds(adminCode: any): ISelectionId[] {
+    if (adminCode === undefined || adminCode === null) {
+      return [];
+    }
+    return (
+      this.regionSelectionIds.get(this.normalizeJoinValue(adminCode)) || []
+    );
+  }
+
+  // Select all rows of a region; Ctrl/Shift-click adds the region to the current selection
+  private selectRegion(adminCode: string, event?: MouseEvent): void {
+    const regionIds = this.getRegionSelectionIds(adminCode);
+    if (regionIds.length === 0) {
+      return;
+    }
+
+    const multiSelect = !!(
+      event &&
+      (event.ctrlKey || event.metaKey || event.shiftKey)
+    );
+    const isRegionSelected = regionIds.every((regionId) =>
+      this.currentSelection.some((id) => this.isSameSelectionId(id, regionId))
+    );
+
+    if (isRegionSelected && !multiSelect) {
+      this.selectionManager
+        .clear()
+        .then(() => {
+          this.currentSelection = [];
+          this.persistentSelection = [];
+          this.updateMarkersVisibility([]);
+        })
+        .catch(() => {
+          // Error clearing selection
+        });
+      return;
+    }
+
+    this.selectionManager
+      .select(regionIds, multiSelect)
+      .then((ids: ISelectionId[]) => {
+        this.currentSelection = ids;
+        this.persistentSelection = [...ids];
+        this.updateMarkersVisibility(ids);
+      })
+      .catch(() => {
+        // Error selecting region
+      });
+  }
+
+  // Add every visible marker, row geometry and (optionally) region inside a drawn shape to the selection
+  private selectInShape(ring: [number, number][]): void {
+    // select(ids, true) toggles IDs that are already selected, so the union is selected instead
+    const ids: ISelectionId[] = [...this.currentSelection];
+    const keys = new Set(ids.map((id) => this.getSelectionKey(id)));
+    const addId = (id: ISelectionId) => {
+      if (id && !keys.has(this.getSelectionKey(id))) {
+        keys.add(this.getSelectionKey(id));
+        ids.push(id);
+      }
+    };
+    const isInShape = (latLng: L.LatLng) =>
+      isPointInRing([latLng.lng, latLng.lat], ring);
+
+    this.markers.forEach((marker) => {
+      if (
+        this.markerClusterGroup.hasLayer(marker) &&
+        isInShape(marker.getLatLng())
+      ) {
+        addId((marker as any).options.selectionId);
+      }
+    });
+
+    this.geometryLayers.forEach((layer) => {
+      const center =
+        "getBounds" in layer
+          ? (layer as L.Polyline).getBounds().getCenter()
+          : (layer as unknown as L.CircleMarker).getLatLng();
+      if (isInShape(center)) {
+        addId((layer as any).selectionId);
+      }
+    });
+
+    this.bubbleMarkers.forEach((circle) => {
+      const bubble: Bubble = (circle as any).bubble;
+      if (!isInShape(circle.getLatLng())) {
+        return;
+      }
+      if (bubble.adminCode !== undefined) {
+        this.getRegionSelectionIds(bubble.adminCode).forEach(addId);
+      } else {
+        addId(this.selectionIds[bubble.rowIndex]);
+      }
+    });
+
+    if (
+      this.settings.selectionSettingsCard.includeRegions.value &&
+      this.choroplethLayer &&
+      this.map.hasLayer(this.choroplethLayer)
+    ) {
+      this.choroplethLayer.eachLayer((layer) => {
+        if (isInShape((layer as L.Polygon).getBounds().getCenter())) {
+          this.getRegionSelectionIds((layer as any).regionAdminCode).forEach(
+            addId
+          );
+        }
+      });
+    }
+
+    if (ids.length === this.currentSelection.length) {
+      return;
+    }
+
+    this.selectionManager
+      .select(ids, false)
+      .then((selectedIds: ISelectionId[]) => {
+        this.currentSelection = selectedIds;
+        this.persistentSelection = [...selectedIds];
+        this.updateMarkersVisibility(selectedIds);
+      })
+      .catch(() => {
+        // Error selecting shape contents
+      });
+  }
+
+  // Dim choropleth regions without selected rows, like non-selected markers
+  private updateChoroplethRegionsVisibility(selectedIds: ISelectionId[]) {
+    const selectedKeys = this.getSelectionKeys(selectedIds);
+    this.regionDimmingSelection = selectedKeys;
+    this.vectorTileLayer?.restyle();
+    if (!this.choroplethLayer) {
+      return;
+    }
+    this.choroplethLayer.eachLayer((layer) => {
+      const isSelected = this.isRegionSelected(
+        (layer as any).regionAdminCode,
+        selectedKeys
+      );
+      (layer as L.Path).setStyle({
+        opacity: isSelected ? 1 : 0.5,
+        fillOpacity: isSelected ? 1 : 0.4,
+      });
+    });
+  }
+
+  // Keys of the selected IDs, built once for the many regions checked against them
+  private getSelectionKeys(selectedIds: ISelectionId[]): Set<string> {
+    return new Set(
+      selectedIds.filter((id) => id).map((id) => this.getSelectionKey(id))
+    );
+  }
+
+  private isRegionSelected(adminCode: any, selectedKeys: Set<string>): boolean {
+    return (
+      selectedKeys.size === 0 ||
+      this.getRegionSelectionIds(adminCode).some((regionId) =>
+        selectedKeys.has(this.getSelectionKey(regionId))
+      )
+    );
+  }
+
   // Get all Admin Codes from current data (with caching)
   private getAdminCodesFromData(): string[] {
     // Return cached admin codes if available
@@ -1422,8 +3832,8 @@ export class Visual implements IVisual {
     return adminCodes;
   }
 
-  // Get choropleth tooltip data for a specific region (GAUL code)
-  private getChoroplethTooltipDataForRegion(gaulCode: any): string | null {
+  // Get choropleth tooltip data for a specific region (admin code)
+  private getChoroplethTooltipDataForRegion(adminCode: any): string | null {
     if (
       !this.currentDataView?.table?.columns ||
       !this.currentDataView?.table?.rows
@@ -1440,12 +3850,12 @@ export class Visual implements IVisual {
       return null;
     }
 
-    // Find the first row that matches this GAUL code
+    // Find the first row that matches this admin code
     const matchingRow = this.currentDataView.table.rows.find((row) => {
       const info = this.getLatLngAdminForRow(row, columns);
       return (
         info.adminCode !== undefined &&
-        String(info.adminCode) === String(gaulCode)
+        String(info.adminCode) === String(adminCode)
       );
     });
 
@@ -1457,79 +3867,67 @@ export class Visual implements IVisual {
     return null;
   }
 
-  // Build choropleth tooltip content using same format as cluster tooltips
-  private buildChoroplethTooltipContent(gaulCode: any): string {
-    const obsIds: string[] = [];
-    let countryName: string | null = null;
-
-    // Handle table data (primary format)
-    if (
-      this.currentDataView?.table?.columns &&
-      this.currentDataView?.table?.rows
-    ) {
-      const columns = this.currentDataView.table.columns;
-
-      // Find ALL rows that match this GAUL code
-      const matchingRows = this.currentDataView.table.rows.filter((row) => {
-        const info = this.getLatLngAdminForRow(row, columns);
-        return (
-          info.adminCode !== undefined &&
-          String(info.adminCode) === String(gaulCode)
-        );
-      });
-
-      if (matchingRows.length > 0) {
-        // Get country name from first matching row's location field, or from GeoJSON
-        const firstRowInfo = this.getLatLngAdminForRow(
-          matchingRows[0],
-          columns
-        );
-        countryName =
-          firstRowInfo.country ||
-          this.getCountryNameFromAdminCode(String(gaulCode));
-
-        // Collect all ObsIDs for this country from location field
-        matchingRows.forEach((row) => {
-          const info = this.getLatLngAdminForRow(row, columns);
-          if (
-            info.obsId !== undefined &&
-            info.obsId !== null &&
-            info.obsId !== ""
-          ) {
-            obsIds.push(String(info.obsId));
-          }
-        });
-      }
-    }
-
-    if (obsIds.length === 0) {
-      return `Matched Region (Code: ${gaulCode})`;
-    }
+  // Build the choropleth tooltip from the region's aggregated statistics, in the same format as cluster tooltips;
+  // extraRows are added at the end, e.g. the size of a region bubble
+  private buildChoroplethTooltipContent(
+    adminCode: any,
+    extraRows: string[] = []
+  ): string {
+    const key = this.normalizeJoinValue(adminCode);
+    const stats = this.regionStats.get(key);
+    const aggregation = String(
+      this.settings.choroplethSettingsCard.aggregation.value.value
+    ) as AggregationMethod;
+    const countryName =
+      this.regionCountryNames.get(key) ||
+      this.getCountryNameFromAdminCode(String(adminCode)) ||
+      `Country ${adminCode}`;
 
     const tooltipParts: string[] = [];
 
     // Add country information
     tooltipParts.push(
-      `<div class="tooltip-row"><span class="field-name">Country</span><span class="field-value">${
-        countryName ||
-        this.getCountryNameFromAdminCode(String(gaulCode)) ||
-        `Country ${gaulCode}`
-      }</span></div>`
+      `<div class="tooltip-row"><span class="field-name">Country</span><span class="field-value">${escapeHtml(
+        countryName
+      )}</span></div>`
     );
 
-    // Add ObsID information
-    if (obsIds.length === 1) {
-      // Show actual ObsID when count is 1
-      tooltipParts.push(
-        `<div class="tooltip-row"><span class="field-name">Obs</span><span class="field-value">${obsIds[0]}</span></div>`
-      );
-    } else {
-      // Show count when more than 1
+    // Add the aggregated region value, or "No data" when the region has none
+    if (this.choroplethValueLabel !== null) {
+      const value = this.regionValues.get(key);
       tooltipParts.push(
-        `<div class="tooltip-row"><span class="field-name">Obs Count</span><span class="field-value">${obsIds.length}</span></div>`
+        `<div class="tooltip-row"><span class="field-name">${escapeHtml(
+          this.choroplethValueLabel
+        )}</span><span class="field-value">${
+          value !== undefined ? value.toLocaleString() : "No data"
+        }</span></div>`
       );
     }
 
+    if (stats) {
+      // The row count is already the value when the rows are counted
+      if (aggregation !== "count") {
+        tooltipParts.push(
+          `<div class="tooltip-row"><span class="field-name">Rows</span><span class="field-value">${stats.rowCount.toLocaleString()}</span></div>`
+        );
+      }
+
+      // Show the Obs ID when the region has a single one, otherwise the distinct count
+      if (stats.ids.size === 1) {
+        const [obsId] = Array.from(stats.ids);
+        tooltipParts.push(
+          `<div class="tooltip-row"><span class="field-name">Obs</span><span class="field-value">${escapeHtml(
+            obsId
+          )}</span></div>`
+        );
+      } else if (stats.ids.size > 1 && aggregation !== "distinctCount") {
+        tooltipParts.push(
+          `<div class="tooltip-row"><span class="field-name">Obs Count</span><span class="field-value">${stats.ids.size.toLocaleString()}</span></div>`
+        );
+      }
+    }
+    tooltipParts.push(...extraRows);
+
     return this.buildTooltipWithOddDividers(tooltipParts);
   }
 
@@ -1539,6 +3937,13 @@ export class Visual implements IVisual {
       return;
     }
 
+    // Vector tile base maps join each feature as its tile is drawn
+    if (this.vectorTileLayer) {
+      this.updateAdminCodeCoverage();
+      this.updateVectorTileChoropleth();
+      return;
+    }
+
     if (this.geoJsonFeatures.length === 0) {
       return;
     }
@@ -1548,6 +3953,7 @@ export class Visual implements IVisual {
       !this.currentDataView?.table?.rows ||
       this.currentDataView.table.rows.length === 0
     ) {
+      this.updateAdminCodeCoverage();
       return;
     }
 
@@ -1559,16 +3965,21 @@ export class Visual implements IVisual {
 
     // Get Admin Codes from current data (with caching)
     const adminCodes = this.getAdminCodesFromData();
+    this.updateAdminCodeCoverage();
 
-    // Find matching features and create choropleth polygons
-    const matchingFeatures = this.geoJsonFeatures.filter((feature) => {
-      const gaulCode = feature.properties?.gaul_code;
-      const gaulCodeStr = String(gaulCode);
-
-      const isMatch = adminCodes.includes(gaulCodeStr);
+    // Recompute region values and the colour scale before the features are styled
+    this.updateRegionValues();
+    this.buildRegionSelectionIds();
 
-      return isMatch;
-    });
+    // Find matching features and create choropleth polygons
+    const normalizedAdminCodes = new Set(
+      adminCodes.map((code) => this.normalizeJoinValue(code))
+    );
+    const matchingFeatures = this.geoJsonFeatures.filter((feature) =>
+      this.getFeatureJoinValues(feature).some((value) =>
+        normalizedAdminCodes.has(value)
+      )
+    );
 
     // Only add choropleth layer to map if we have matching features
     if (matchingFeatures.length > 0) {
@@ -1588,8 +3999,23 @@ export class Visual implements IVisual {
       }
     }
 
+    // Keep the current selection dimming on the rebuilt regions
+    this.updateChoroplethRegionsVisibility(this.currentSelection);
+
+    // Centroid bubbles need the base map features
+    if (
+      this.settings.bubbleSettingsCard.placement.value.value === "centroids"
+    ) {
+      this.updateBubbleLayer();
+    }
+
+    // Regions arrive after the base map loads, so region-based initial views are applied here
+    this.ensureInitialView();
+
     // Hide loader after choropleth processing is complete
     this.hideLoader("choropleth");
+
+    this.updateLegend();
   }
 
   // Force choropleth layer update when both GeoJSON and data are ready
@@ -1597,7 +4023,7 @@ export class Visual implements IVisual {
     if (
       this.mapLoaded &&
       this.choroplethLayer &&
-      this.geoJsonFeatures.length > 0 &&
+      (this.geoJsonFeatures.length > 0 || this.vectorTileLayer) &&
       this.currentDataView?.table?.rows &&
       this.currentDataView.table.rows.length > 0
     ) {
@@ -1628,6 +4054,19 @@ export class Visual implements IVisual {
 
     // Update settings from Power BI (this works better when data is present)
     this.updateSettingsFromPowerBI(options);
+    this.updateChoroplethSettingsFromPowerBI(options.dataViews[0]);
+    this.updateLegendSettingsFromPowerBI(options.dataViews[0]);
+    this.updateSelectionSettingsFromPowerBI(options.dataViews[0]);
+    this.updateViewFilterSettingsFromPowerBI(options.dataViews[0]);
+    this.updateZoomSettingsFromPowerBI(options.dataViews[0]);
+    this.updateViewSettingsFromPowerBI(options.dataViews[0]);
+    this.updateCacheSettingsFromPowerBI(options.dataViews[0]);
+    this.updateLoadSettingsFromPowerBI(options.dataViews[0]);
+    this.updateDiagnosticsSettingsFromPowerBI(options.dataViews[0]);
+    this.updateOverlaySettingsFromPowerBI(options.dataViews[0]);
+    this.updateSpatialJoinSettingsFromPowerBI(options.dataViews[0]);
+    this.updateBubbleSettingsFromPowerBI(options.dataViews[0]);
+    this.updateHeatmapSettingsFromPowerBI(options.dataViews[0]);
 
     // Check if base map URL has changed and reload if necessary
     this.handleBaseMapUrlChange();
@@ -1653,8 +4092,7 @@ export class Visual implements IVisual {
       // Power BI Leaflet Visual - Data Import Guide:
       //   • For best results with complex geometries, use JSON import instead of CSV/Excel
       //   • Power BI has a 32,766 character limit for text fields
-      //   • Choropleth data loaded from Power BI geometryString
-      //   • Simple display: Power BI geometry strings shown in red
+      //   • WKT / GeoJSON text in the Geometry field is drawn by processGeometryData
 
       // Add comprehensive debugging for the update method
       // UPDATE METHOD - Data structure received:
@@ -1700,6 +4138,12 @@ export class Visual implements IVisual {
       // Update markers visibility based on current Power BI filtering
       this.updateMarkersVisibility(this.currentSelection);
 
+      // Rebuild the legend from the layers drawn for this update
+      this.updateLegend();
+
+      // Fit or position the map once the data for the initial view is known
+      this.ensureInitialView();
+
       // Perform empty state check after all data processing is complete
       this.performEmptyStateCheck();
 
@@ -1771,6 +4215,12 @@ export class Visual implements IVisual {
     // Process marker data from Power BI (lat/long) AFTER selection IDs are created
     this.processMarkerData(dataView);
 
+    // Draw per-row WKT / GeoJSON geometries
+    this.processGeometryData(dataView);
+
+    // Draw proportional symbols; centroid bubbles are redrawn once regions are matched
+    this.updateBubbleLayer();
+
     // Force choropleth layer update when both GeoJSON and data are ready
     this.forceChoroplethUpdate();
   }
@@ -1934,10 +4384,8 @@ export class Visual implements IVisual {
       }
     });
 
-    // Only add cluster group to map if base map URL is provided
-    const hasBaseMapUrl =
-      this.settings?.mapSettingsCard?.baseMapUrl?.value?.trim() !== "";
-    if (hasBaseMapUrl && !this.map.hasLayer(this.markerClusterGroup)) {
+    // Only add cluster group to map if there is a base map
+    if (this.hasBaseMap() && !this.map.hasLayer(this.markerClusterGroup)) {
       this.markerClusterGroup.addTo(this.map);
     }
   }
@@ -2074,10 +4522,8 @@ export class Visual implements IVisual {
       }
     });
 
-    // Only add cluster group to map if base map URL is provided
-    const hasBaseMapUrl =
-      this.settings?.mapSettingsCard?.baseMapUrl?.value?.trim() !== "";
-    if (hasBaseMapUrl && !this.map.hasLayer(this.markerClusterGroup)) {
+    // Only add cluster group to map if there is a base map
+    if (this.hasBaseMap() && !this.map.hasLayer(this.markerClusterGroup)) {
       this.markerClusterGroup.addTo(this.map);
     }
   }
@@ -2085,7 +4531,8 @@ export class Visual implements IVisual {
   // Build tooltip content for categorical data
   private buildCategoricalTooltipContent(
     locationInfo: any,
-    refId: any
+    refId: any,
+    extraRows: string[] = []
   ): string {
     const tooltipParts: string[] = [];
 
@@ -2111,6 +4558,22 @@ export class Visual implements IVisual {
       );
     }
 
+    // Add any extra named positions from the location field schema
+    if (locationInfo.extraFields) {
+      locationInfo.extraFields.forEach(
+        (field: { name: string; value: string }) => {
+          tooltipParts.push(
+            `<div class="tooltip-row"><span class="field-name">${escapeHtml(
+              field.name
+            )}</span><span class="field-value">${escapeHtml(
+              String(field.value)
+            )}</span></div>`
+          );
+        }
+      );
+    }
+    tooltipParts.push(...extraRows);
+
     return this.buildTooltipWithOddDividers(tooltipParts);
   }
 
@@ -2293,10 +4756,8 @@ export class Visual implements IVisual {
         this.markers.push(marker);
       });
 
-      // Only add cluster group to map if base map URL is provided
-      const hasBaseMapUrl =
-        this.settings?.mapSettingsCard?.baseMapUrl?.value?.trim() !== "";
-      if (hasBaseMapUrl && !this.map.hasLayer(this.markerClusterGroup)) {
+      // Only add cluster group to map if there is a base map
+      if (this.hasBaseMap() && !this.map.hasLayer(this.markerClusterGroup)) {
         this.markerClusterGroup.addTo(this.map);
       }
 
@@ -2326,6 +4787,506 @@ export class Visual implements IVisual {
     });
   }
 
+  // Draw the geometry data role of each row as its own path in the geometry layer
+  private processGeometryData(dataView: DataView) {
+    this.geometryLayer.clearLayers();
+    this.geometryLayers = [];
+
+    const columns = dataView.table.columns;
+    const rows = dataView.table.rows;
+    const geometryColIndex = this.getColumnIndexByRole(columns, "geometry");
+    if (geometryColIndex < 0) {
+      if (this.map.hasLayer(this.geometryLayer)) {
+        this.map.removeLayer(this.geometryLayer);
+      }
+      return;
+    }
+
+    // Get Ref ID field for filtering (contains comma-separated list of visible Ref IDs)
+    const refIdColIndex = columns.findIndex((col) => col.roles?.refId);
+    const refIdFilterString =
+      refIdColIndex >= 0 && rows.length > 0
+        ? String(rows[0][refIdColIndex] || "")
+        : "";
+
+    const features = [];
+    rows.forEach((row, rowIndex) => {
+      const geometry = parseGeometryText(row[geometryColIndex]);
+      if (!geometry) {
+        return;
+      }
+      const info = this.getLatLngAdminForRow(row, columns);
+      features.push({
+        type: "Feature",
+        geometry,
+        properties: {
+          rowIndex,
+          info,
+          refIdFiltered: this.isMarkerRefIdInMeasure(
+            info.refId,
+            refIdFilterString
+          ),
+        },
+      });
+    });
+
+    if (features.length > 0) {
+      this.geometryLayer.addData({
+        type: "FeatureCollection",
+        features,
+      } as any);
+    }
+
+    // Only add geometry layer to map if there is a base map
+    if (
+      this.hasBaseMap() &&
+      features.length > 0 &&
+      !this.map.hasLayer(this.geometryLayer)
+    ) {
+      this.geometryLayer.addTo(this.map);
+    } else if (features.length === 0 && this.map.hasLayer(this.geometryLayer)) {
+      this.map.removeLayer(this.geometryLayer);
+    }
+  }
+
+  private getGeometryStyle(): L.PathOptions {
+    return {
+      color: "#F9B112",
+      weight: 3,
+      opacity: 1,
+      fillColor: "#F9B112",
+      fillOpacity: 0.4,
+    };
+  }
+
+  // Row geometry handler: attach selection ID, tooltip and selection toggle like markers
+  private onEachGeometryFeature(feature: any, layer: L.Layer): void {
+    const rowIndex = feature.properties.rowIndex;
+    const info = feature.properties.info;
+    (layer as any).selectionId = this.selectionIds[rowIndex];
+    (layer as any).refIdFiltered = feature.properties.refIdFiltered;
+    this.geometryLayers.push(layer as L.Path);
+
+    layer.on("click", (event: L.LeafletMouseEvent) => {
+      const tooltipContent = this.buildCategoricalTooltipContent(
+        info,
+        info.refId
+      );
+      this.showTooltip(tooltipContent, event.latlng);
+      this.toggleSelection((layer as any).selectionId);
+      L.DomEvent.stopPropagation(event);
+    });
+  }
+
+  // Select the clicked data point, or clear the selection if it is already selected
+  private toggleSelection(clickedSelectionId: ISelectionId | undefined) {
+    if (!clickedSelectionId) {
+      return;
+    }
+
+    const isCurrentlySelected = this.currentSelection.some((id) =>
+      this.isSameSelectionId(id, clickedSelectionId)
+    );
+
+    if (isCurrentlySelected) {
+      this.selectionManager
+        .clear()
+        .then(() => {
+          this.currentSelection = [];
+          this.persistentSelection = [];
+          this.updateMarkersVisibility([]);
+        })
+        .catch(() => {
+          // Error clearing selection
+        });
+    } else {
+      this.selectionManager
+        .select(clickedSelectionId)
+        .then((ids: ISelectionId[]) => {
+          this.currentSelection = ids;
+          this.persistentSelection = [...ids];
+          this.updateMarkersVisibility(ids);
+        })
+        .catch(() => {
+          // Error selecting data point
+        });
+    }
+  }
+
+  // Key for Set lookups, comparing IDs the way isSameSelectionId does
+  private getSelectionKey(id: ISelectionId): string {
+    return id.getKey ? id.getKey() : id.toString();
+  }
+
+  private isSameSelectionId(a: ISelectionId, b: ISelectionId): boolean {
+    if (!a || !b) return false;
+    if (a.getKey && b.getKey) {
+      return a.getKey() === b.getKey();
+    }
+    if (a.toString && b.toString) {
+      return a.toString() === b.toString();
+    }
+    return a === b;
+  }
+
+  // Read the bubble layer settings from the dataView objects
+  private updateBubbleSettingsFromPowerBI(dataView: DataView) {
+    const bubbleSettings = dataView?.metadata?.objects?.bubbleSettings as any;
+    const card = this.settings.bubbleSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().bubbleSettingsCard;
+
+    card.show.value = bubbleSettings?.show === true;
+    (["placement", "scaling"] as const).forEach((name) => {
+      const value = bubbleSettings?.[name]
+        ? String(bubbleSettings[name])
+        : defaults[name].value.value;
+      card[name].value =
+        card[name].items.find((item) => item.value === value) ||
+        defaults[name].value;
+    });
+    (["minRadius", "maxRadius"] as const).forEach((name) => {
+      card[name].value =
+        typeof bubbleSettings?.[name] === "number"
+          ? Math.max(0, bubbleSettings[name])
+          : defaults[name].value;
+    });
+    card.color.value = {
+      value: bubbleSettings?.color?.solid?.color || defaults.color.value.value,
+    };
+  }
+
+  // Redraw the bubbles from the current rows, largest first so small bubbles stay clickable
+  private updateBubbleLayer(): void {
+    this.bubbleLayer.clearLayers();
+    this.bubbleMarkers = [];
+
+    const card = this.settings.bubbleSettingsCard;
+    const columns = this.currentDataView?.table?.columns;
+    const rows = this.currentDataView?.table?.rows;
+    if (card.show.value && columns && rows) {
+      const sizeColIndex = this.getColumnIndexByRole(columns, "bubbleSize");
+      this.bubbleSizeLabel =
+        sizeColIndex >= 0 ? columns[sizeColIndex].displayName : "Row count";
+      const bubbles =
+        card.placement.value.value === "centroids"
+          ? this.getCentroidBubbles(columns, rows, sizeColIndex)
+          : this.getPointBubbles(columns, rows, sizeColIndex);
+      const maxValue = bubbles.reduce(
+        (max, bubble) => Math.max(max, bubble.value),
+        0
+      );
+      const sizeOptions: BubbleSizeOptions = {
+        scaling: card.scaling.value.value as BubbleScaling,
+        minRadius: card.minRadius.value,
+        maxRadius: card.maxRadius.value,
+      };
+      bubbles
+        .sort((a, b) => b.value - a.value)
+        .forEach((bubble) =>
+          this.addBubbleMarker(
+            bubble,
+            getBubbleRadius(bubble.value, maxValue, sizeOptions)
+          )
+        );
+    }
+
+    if (
+      this.hasBaseMap() &&
+      this.bubbleMarkers.length > 0 &&
+      !this.map.hasLayer(this.bubbleLayer)
+    ) {
+      this.bubbleLayer.addTo(this.map);
+    } else if (
+      this.bubbleMarkers.length === 0 &&
+      this.map.hasLayer(this.bubbleLayer)
+    ) {
+      this.map.removeLayer(this.bubbleLayer);
+    }
+    this.updateBubblesVisibility(this.currentSelection);
+    this.updateLegend();
+  }
+
+  // Size of one row; rows count once when the Bubble Size field is empty
+  private getBubbleRowValue(row: any[], sizeColIndex: number): number {
+    if (sizeColIndex < 0) {
+      return 1;
+    }
+    const value = parseFloat(String(row[sizeColIndex]));
+    return isNaN(value) ? 0 : value;
+  }
+
+  private getRefIdFilterString(columns: any[], rows: any[][]): string {
+    const refIdColIndex = columns.findIndex((col) => col.roles?.refId);
+    return refIdColIndex >= 0 && rows.length > 0
+      ? String(rows[0][refIdColIndex] || "")
+      : "";
+  }
+
+  // One bubble per row with coordinates
+  private getPointBubbles(
+    columns: any[],
+    rows: any[][],
+    sizeColIndex: number
+  ): Bubble[] {
+    const refIdFilterString = this.getRefIdFilterString(columns, rows);
+    const bubbles: Bubble[] = [];
+    rows.forEach((row, rowIndex) => {
+      const info = this.getLatLngAdminForRow(row, columns);
+      if (
+        info.latitude === undefined ||
+        info.longitude === undefined ||
+        isNaN(info.latitude) ||
+        isNaN(info.longitude)
+      ) {
+        return;
+      }
+      bubbles.push({
+        latLng: L.latLng(info.latitude, info.longitude),
+        value: this.getBubbleRowValue(row, sizeColIndex),
+        refIdFiltered: this.isMarkerRefIdInMeasure(
+          info.refId,
+          refIdFilterString
+        ),
+        rowIndex,
+        info,
+      });
+    });
+    return bubbles;
+  }
+
+  // One bubble per matched region at the centroid of its base map feature, sized by the region total
+  private getCentroidBubbles(
+    columns: any[],
+    rows: any[][],
+    sizeColIndex: number
+  ): Bubble[] {
+    // Vector tile base maps have no feature geometries to place bubbles on
+    if (this.geoJsonFeatures.length === 0) {
+      return [];
+    }
+    const featuresByJoinValue = new Map<string, any>();
+    this.geoJsonFeatures.forEach((feature) =>
+      this.getFeatureJoinValues(feature).forEach((value) => {
+        if (!featuresByJoinValue.has(value)) {
+          featuresByJoinValue.set(value, feature);
+        }
+      })
+    );
+
+    const refIdFilterString = this.getRefIdFilterString(columns, rows);
+    const bubblesByRegion = new Map<string, Bubble>();
+    rows.forEach((row) => {
+      const info = this.getLatLngAdminForRow(row, columns);
+      if (!info.adminCode) {
+        return;
+      }
+      const key = this.normalizeJoinValue(info.adminCode);
+      let bubble = bubblesByRegion.get(key);
+      if (!bubble) {
+        const centroid = getGeometryCentroid(
+          featuresByJoinValue.get(key)?.geometry
+        );
+        if (!centroid) {
+          return;
+        }
+        bubble = {
+          latLng: L.latLng(centroid[1], centroid[0]),
+          value: 0,
+          refIdFiltered: false,
+          adminCode: info.adminCode,
+        };
+        bubblesByRegion.set(key, bubble);
+      }
+      bubble.value += this.getBubbleRowValue(row, sizeColIndex);
+      bubble.refIdFiltered =
+        bubble.refIdFiltered ||
+        this.isMarkerRefIdInMeasure(info.refId, refIdFilterString);
+    });
+    return Array.from(bubblesByRegion.values());
+  }
+
+  // Draw one bubble; clicking a row bubble acts like a marker, a region bubble like its region
+  private addBubbleMarker(bubble: Bubble, radius: number): void {
+    const color = this.settings.bubbleSettingsCard.color.value.value;
+    const circle = L.circleMarker(bubble.latLng, {
+      pane: "bubblesPane",
+      radius,
+      color: "#FFFFFF",
+      weight: 1,
+      fillColor: color,
+      fillOpacity: 0.6,
+    });
+    (circle as any).bubble = bubble;
+
+    // The bubble's own size, summed over the region for region bubbles
+    const sizeRow = `<div class="tooltip-row"><span class="field-name">${escapeHtml(
+      this.bubbleSizeLabel
+    )}</span><span class="field-value">${bubble.value.toLocaleString()}</span></div>`;
+
+    circle.on("click", (event: L.LeafletMouseEvent) => {
+      if (bubble.adminCode !== undefined) {
+        this.showTooltip(
+          this.buildChoroplethTooltipContent(bubble.adminCode, [sizeRow]),
+          event.latlng
+        );
+        this.selectRegion(bubble.adminCode, event.originalEvent);
+      } else {
+        this.showTooltip(
+          this.buildCategoricalTooltipContent(bubble.info, bubble.info.refId, [
+            sizeRow,
+          ]),
+          event.latlng
+        );
+        this.toggleSelection(this.selectionIds[bubble.rowIndex]);
+      }
+      L.DomEvent.stopPropagation(event);
+    });
+
+    this.bubbleLayer.addLayer(circle);
+    this.bubbleMarkers.push(circle);
+  }
+
+  // Dim bubbles with the same opacity rules as markers; region bubbles follow their region
+  private updateBubblesVisibility(selectedIds: ISelectionId[]) {
+    const selectedKeys = this.getSelectionKeys(selectedIds);
+    this.bubbleMarkers.forEach((circle) => {
+      const bubble: Bubble = (circle as any).bubble;
+      let opacity = bubble.refIdFiltered ? 1 : 0.3;
+      if (selectedKeys.size > 0) {
+        const rowId = this.selectionIds[bubble.rowIndex];
+        const isSelected =
+          bubble.adminCode !== undefined
+            ? this.isRegionSelected(bubble.adminCode, selectedKeys)
+            : !!rowId && selectedKeys.has(this.getSelectionKey(rowId));
+        if (!isSelected) {
+          opacity = bubble.refIdFiltered ? 0.5 : 0.15;
+        }
+      }
+      circle.setStyle({ opacity, fillOpacity: opacity * 0.6 });
+    });
+  }
+
+  // Read the heatmap settings from the dataView objects
+  private updateHeatmapSettingsFromPowerBI(dataView: DataView) {
+    const heatmapSettings = dataView?.metadata?.objects?.heatmapSettings as any;
+    const card = this.settings.heatmapSettingsCard;
+    const defaults = new VisualFormattingSettingsModel().heatmapSettingsCard;
+
+    (["renderMode", "gradient"] as const).forEach((name) => {
+      const value = heatmapSettings?.[name]
+        ? String(heatmapSettings[name])
+        : defaults[name].value.value;
+      card[name].value =
+        card[name].items.find((item) => item.value === value) ||
+        defaults[name].value;
+    });
+    (["radius", "blur", "maxIntensity"] as const).forEach((name) => {
+      card[name].value =
+        typeof heatmapSettings?.[name] === "number"
+          ? Math.max(0, heatmapSettings[name])
+          : defaults[name].value;
+    });
+    (["lowColor", "highColor"] as const).forEach((name) => {
+      const color = heatmapSettings?.[name]?.solid?.color;
+      card[name].value = { value: color || defaults[name].value.value };
+    });
+  }
+
+  private getSelectedHeatmapGradient(): HeatmapGradient {
+    const card = this.settings.heatmapSettingsCard;
+    return getHeatmapGradient(
+      String(card.gradient.value.value),
+      card.lowColor.value.value,
+      card.highColor.value.value
+    );
+  }
+
+  // In heatmap mode the rows in the filter context are drawn as heat instead of clustered pins.
+  // Points the Ref ID Filter or the current selection would dim add no heat.
+  private updateHeatmapLayer(selectedIds: ISelectionId[]): void {
+    const card = this.settings.heatmapSettingsCard;
+    const columns = this.currentDataView?.table?.columns;
+    const rows = this.currentDataView?.table?.rows;
+    if (
+      card.renderMode.value.value !== "heatmap" ||
+      !this.hasBaseMap() ||
+      !columns ||
+      !rows
+    ) {
+      if (this.heatLayer && this.map.hasLayer(this.heatLayer)) {
+        this.map.removeLayer(this.heatLayer);
+      }
+      return;
+    }
+    if (this.map.hasLayer(this.markerClusterGroup)) {
+      this.map.removeLayer(this.markerClusterGroup);
+    }
+
+    const weightColIndex = this.getColumnIndexByRole(columns, "heatWeight");
+    const refIdFilterString = this.getRefIdFilterString(columns, rows);
+    const selectedKeys = this.getSelectionKeys(selectedIds);
+    const observations: HeatmapObservation[] = [];
+    rows.forEach((row, rowIndex) => {
+      const info = this.getLatLngAdminForRow(row, columns);
+      const rowId = this.selectionIds[rowIndex];
+      if (
+        !this.isMarkerRefIdInMeasure(info.refId, refIdFilterString) ||
+        (selectedKeys.size > 0 &&
+          !(rowId && selectedKeys.has(this.getSelectionKey(rowId))))
+      ) {
+        return;
+      }
+      observations.push({
+        latitude: info.latitude,
+        longitude: info.longitude,
+        weight:
+          weightColIndex >= 0 ? parseFloat(String(row[weightColIndex])) : 1,
+      });
+    });
+    const points: L.HeatLatLngTuple[] = buildHeatmapPoints(observations);
+
+    const options: L.HeatMapOptions = {
+      radius: card.radius.value,
+      blur: card.blur.value,
+      max: getHeatmapMax(
+        points.map((point) => point[2]),
+        card.maxIntensity.value
+      ),
+      maxZoom: 0, // Full intensity at every zoom, so the maximum means the same when zoomed out
+      gradient: this.getSelectedHeatmapGradient(),
+    };
+    if (this.heatLayer) {
+      this.heatLayer.setOptions(options);
+      this.heatLayer.setLatLngs(points);
+    } else {
+      this.heatLayer = L.heatLayer(points, options);
+    }
+
+    const visible = points.length > 0 && !this.hiddenLayers.has("markers");
+    if (visible && !this.map.hasLayer(this.heatLayer)) {
+      this.heatLayer.addTo(this.map);
+    } else if (!visible && this.map.hasLayer(this.heatLayer)) {
+      this.map.removeLayer(this.heatLayer);
+    }
+  }
+
+  // Dim row geometries with the same opacity rules as markers
+  private updateGeometriesVisibility(selectedIds: ISelectionId[]) {
+    this.geometryLayers.forEach((layer) => {
+      const isRefIdFiltered = (layer as any).refIdFiltered;
+      let opacity = isRefIdFiltered ? 1 : 0.3;
+      if (selectedIds.length > 0) {
+        const isSelected = selectedIds.some((id) =>
+          this.isSameSelectionId(id, (layer as any).selectionId)
+        );
+        if (!isSelected) {
+          opacity = isRefIdFiltered ? 0.5 : 0.15;
+        }
+      }
+      layer.setStyle({ opacity, fillOpacity: opacity * 0.4 });
+    });
+  }
+
   private clearAllData() {
     // Clear all loading operations and hide loader
     this.loadingOperations.clear();
@@ -2350,11 +5311,21 @@ export class Visual implements IVisual {
       this.choroplethLayer.clearLayers();
     }
 
+    // Clear row geometries
+    this.geometryLayer.clearLayers();
+    this.geometryLayers = [];
+
+    // Clear bubbles
+    this.bubbleLayer.clearLayers();
+    this.bubbleMarkers = [];
+
     // Clear cached admin codes
     this.cachedAdminCodes = [];
 
     // Reset map loaded flag
     this.mapLoaded = false;
+
+    this.updateLegend();
   }
 
   private updateMarkersVisibility(selectedIds: ISelectionId[]) {
@@ -2433,6 +5404,12 @@ export class Visual implements IVisual {
     // Update cluster opacity based on selection
     this.updateClusterOpacity(selectedIds);
 
+    // Apply the same selection and Ref ID dimming to row geometries and regions
+    this.updateGeometriesVisibility(selectedIds);
+    this.updateBubblesVisibility(selectedIds);
+    this.updateChoroplethRegionsVisibility(selectedIds);
+    this.updateHeatmapLayer(selectedIds);
+
     // Check empty state after marker visibility update
     this.performEmptyStateCheck();
   }
@@ -2632,12 +5609,10 @@ export class Visual implements IVisual {
       try {
         this.ensureEmptyStateDivPosition();
         const hasAnyData = this.hasAnyDistributionData();
-        const hasBaseMapUrl =
-          this.settings?.mapSettingsCard?.baseMapUrl?.value?.trim() !== "";
         const hasOriginalData = this.selectionIds.length > 0;
 
-        // Always show message until URL is provided, regardless of data
-        if (!hasBaseMapUrl) {
+        // Always show message until a base map is configured, regardless of data
+        if (!this.hasBaseMap()) {
           // Show appropriate message based on whether data is present
           if (hasOriginalData) {
             this.showUrlRequiredMessage();
@@ -2666,8 +5641,8 @@ export class Visual implements IVisual {
         this.markerClusterGroup.hasLayer(marker)
       ).length;
 
-      // Only return true if there are actually visible markers on the map
-      return visibleMarkers > 0;
+      // Only return true if there are actually visible markers or geometries on the map
+      return visibleMarkers > 0 || this.geometryLayers.length > 0;
     } catch (error) {
       return false;
     }
@@ -2756,33 +5731,15 @@ export class Visual implements IVisual {
     const objectEnumeration: powerbiVisualsApi.VisualObjectInstance[] = [];
 
     if (objectName === "mapSettings") {
-      // Base map URL enumeration
-      const currentUrl =
-        this.settings?.mapSettingsCard?.baseMapUrl?.value || "";
-      let finalUrl = currentUrl;
-      if (!finalUrl && (this as any).lastBaseMapUrl) {
-        finalUrl = (this as any).lastBaseMapUrl;
-      }
-      objectEnumeration.push({
-        objectName: objectName,
-        properties: {
-          baseMapUrl: finalUrl,
-        },
-        selector: null,
-      });
+      objectEnumeration.push(...this.getMapSettingsObjectInstances());
+    }
 
-      // Disputed borders URL enumeration
-      const currentDisputed =
-        this.settings?.mapSettingsCard?.disputedBordersUrl?.value || "";
-      let finalDisputed = currentDisputed;
-      if (!finalDisputed && (this as any).lastDisputedBordersUrl) {
-        finalDisputed = (this as any).lastDisputedBordersUrl;
-      }
+    // Cards beyond the map settings expose all of their properties at once
+    const cardProperties = this.getCardObjectProperties(objectName);
+    if (cardProperties) {
       objectEnumeration.push({
         objectName: objectName,
-        properties: {
-          disputedBordersUrl: finalDisputed,
-        },
+        properties: cardProperties,
         selector: null,
       });
     }
@@ -2790,6 +5747,243 @@ export class Visual implements IVisual {
     return objectEnumeration;
   }
 
+  // Map settings are enumerated in groups, falling back to the last loaded URLs
+  private getMapSettingsObjectInstances(): powerbiVisualsApi.VisualObjectInstance[] {
+    const objectEnumeration: powerbiVisualsApi.VisualObjectInstance[] = [];
+
+    // Base map URL enumeration
+    const currentUrl = this.settings?.mapSettingsCard?.baseMapUrl?.value || "";
+    let finalUrl = currentUrl;
+    if (!finalUrl && (this as any).lastBaseMapUrl) {
+      finalUrl = (this as any).lastBaseMapUrl;
+    }
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        baseMapUrl: finalUrl,
+      },
+      selector: null,
+    });
+
+    // Base map format enumeration
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        baseMapFormat:
+          this.settings?.mapSettingsCard?.baseMapFormat?.value?.value,
+        vectorTileSourceLayer:
+          this.settings?.mapSettingsCard?.vectorTileSourceLayer?.value || "",
+      },
+      selector: null,
+    });
+
+    // TopoJSON object enumeration
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        baseMapTopologyObject:
+          this.settings?.mapSettingsCard?.baseMapTopologyObject?.value || "",
+        disputedBordersTopologyObject:
+          this.settings?.mapSettingsCard?.disputedBordersTopologyObject
+            ?.value || "",
+      },
+      selector: null,
+    });
+
+    // Disputed borders URL enumeration
+    const currentDisputed =
+      this.settings?.mapSettingsCard?.disputedBordersUrl?.value || "";
+    let finalDisputed = currentDisputed;
+    if (!finalDisputed && (this as any).lastDisputedBordersUrl) {
+      finalDisputed = (this as any).lastDisputedBordersUrl;
+    }
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        disputedBordersUrl: finalDisputed,
+      },
+      selector: null,
+    });
+
+    // Choropleth join keys enumeration
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        joinProperty:
+          this.settings?.mapSettingsCard?.joinProperty?.value || "gaul_code",
+        alternateJoinKeys:
+          this.settings?.mapSettingsCard?.alternateJoinKeys?.value || "",
+      },
+      selector: null,
+    });
+
+    // Raster tile layer enumeration
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        tileUrlTemplate:
+          this.settings?.mapSettingsCard?.tileUrlTemplate?.value || "",
+        tileSubdomains:
+          this.settings?.mapSettingsCard?.tileSubdomains?.value || "abc",
+        tileAttribution:
+          this.settings?.mapSettingsCard?.tileAttribution?.value || "",
+        tileOpacity: this.settings?.mapSettingsCard?.tileOpacity?.value,
+        tileMode: this.settings?.mapSettingsCard?.tileMode?.value?.value,
+      },
+      selector: null,
+    });
+
+    // Location field layout enumeration
+    objectEnumeration.push({
+      objectName: "mapSettings",
+      properties: {
+        locationDelimiter:
+          this.settings?.mapSettingsCard?.locationDelimiter?.value || ",",
+        locationFieldSchema:
+          this.settings?.mapSettingsCard?.locationFieldSchema?.value || "",
+      },
+      selector: null,
+    });
+    return objectEnumeration;
+  }
+
+  // Current property values of a formatting card, keyed as in capabilities.json
+  private getCardObjectProperties(objectName: string): {
+    [propertyName: string]: powerbiVisualsApi.DataViewPropertyValue;
+  } | null {
+    switch (objectName) {
+      case "choroplethSettings": {
+        const card = this.settings.choroplethSettingsCard;
+        return {
+          aggregation: card.aggregation.value.value,
+          colorRamp: card.colorRamp.value.value,
+          minColor: { solid: { color: card.minColor.value.value } },
+          midColor: { solid: { color: card.midColor.value.value } },
+          maxColor: { solid: { color: card.maxColor.value.value } },
+          noDataColor: { solid: { color: card.noDataColor.value.value } },
+          classificationMethod: card.classificationMethod.value.value,
+          classCount: card.classCount.value,
+          manualBreaks: card.manualBreaks.value,
+        };
+      }
+      case "legendSettings": {
+        const card = this.settings.legendSettingsCard;
+        return {
+          show: card.show.value,
+          position: card.position.value.value,
+          title: card.title.value,
+        };
+      }
+      case "selectionSettings": {
+        const card = this.settings.selectionSettingsCard;
+        return {
+          showTools: card.showTools.value,
+          includeRegions: card.includeRegions.value,
+        };
+      }
+      case "zoomSettings": {
+        const card = this.settings.zoomSettingsCard;
+        return {
+          minZoom: card.minZoom.value,
+          maxZoom: card.maxZoom.value,
+          scrollWheelZoom: card.scrollWheelZoom.value,
+          doubleClick: card.doubleClick.value.value,
+          boxZoom: card.boxZoom.value,
+        };
+      }
+      case "viewSettings": {
+        const card = this.settings.viewSettingsCard;
+        return {
+          initialView: card.initialView.value.value,
+          fixedLatitude: card.fixedLatitude.value,
+          fixedLongitude: card.fixedLongitude.value,
+          fixedZoom: card.fixedZoom.value,
+          rememberView: card.rememberView.value,
+          showLayerToggles: card.showLayerToggles.value,
+        };
+      }
+      default:
+        return this.getMapDataObjectProperties(objectName);
+    }
+  }
+
+  // The rest of getCardObjectProperties, kept apart to stay within the function length limit
+  private getMapDataObjectProperties(objectName: string): {
+    [propertyName: string]: powerbiVisualsApi.DataViewPropertyValue;
+  } | null {
+    switch (objectName) {
+      case "overlaySettings": {
+        const card = this.settings.overlaySettingsCard;
+        return {
+          definitions: card.definitions.value,
+          showLayerControl: card.showLayerControl.value,
+        };
+      }
+      case "cacheSettings": {
+        const card = this.settings.cacheSettingsCard;
+        return {
+          enabled: card.enabled.value,
+          maxAgeHours: card.maxAgeHours.value,
+          clearCache: card.clearCache.value,
+        };
+      }
+      case "loadSettings": {
+        const card = this.settings.loadSettingsCard;
+        return {
+          timeoutSeconds: card.timeoutSeconds.value,
+          retries: card.retries.value,
+        };
+      }
+      case "diagnosticsSettings": {
+        const card = this.settings.diagnosticsSettingsCard;
+        return {
+          panelMode: card.panelMode.value.value,
+          showCoverageBadge: card.showCoverageBadge.value,
+          unmatchedThreshold: card.unmatchedThreshold.value,
+        };
+      }
+      case "viewFilterSettings": {
+        const card = this.settings.viewFilterSettingsCard;
+        return {
+          enabled: card.enabled.value,
+          filterOn: card.filterOn.value.value,
+        };
+      }
+      case "spatialJoinSettings": {
+        const card = this.settings.spatialJoinSettingsCard;
+        return {
+          enabled: card.enabled.value,
+          countryProperty: card.countryProperty.value,
+        };
+      }
+      case "bubbleSettings": {
+        const card = this.settings.bubbleSettingsCard;
+        return {
+          show: card.show.value,
+          placement: card.placement.value.value,
+          scaling: card.scaling.value.value,
+          minRadius: card.minRadius.value,
+          maxRadius: card.maxRadius.value,
+          color: { solid: { color: card.color.value.value } },
+        };
+      }
+      case "heatmapSettings": {
+        const card = this.settings.heatmapSettingsCard;
+        return {
+          renderMode: card.renderMode.value.value,
+          radius: card.radius.value,
+          blur: card.blur.value,
+          maxIntensity: card.maxIntensity.value,
+          gradient: card.gradient.value.value,
+          lowColor: { solid: { color: card.lowColor.value.value } },
+          highColor: { solid: { color: card.highColor.value.value } },
+        };
+      }
+      default:
+        return null;
+    }
+  }
+
   // Override the parse method to handle settings changes
   public parseSettings(settings: any) {
     if (settings && settings.mapSettings && settings.mapSettings.baseMapUrl) {
@@ -2801,6 +5995,8 @@ export class Visual implements IVisual {
 
   public destroy(): void {
     try {
+      // Also ends an unfinished lasso, which listens on the document
+      this.selectionTools?.setEnabled(false);
       if (this.map) {
         this.map.remove();
       }
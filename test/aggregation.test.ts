@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  aggregateByRegion,
+  getAggregateValue,
+  getAggregationLabel,
+  usesValueField,
+} from "../src/aggregation";
+
+const statsByRegion = aggregateByRegion([
+  { region: "UG", id: "a", value: 4 },
+  { region: "UG", id: "a", value: 10 },
+  { region: "UG", id: "b", value: NaN },
+  { region: "UG", id: "" },
+  { region: "KE", id: "c" },
+]);
+
+describe("aggregateByRegion", () => {
+  it("gathers every statistic per region", () => {
+    const uganda = statsByRegion.get("UG");
+    expect(uganda?.rowCount).toBe(4);
+    expect(Array.from(uganda?.ids || [])).toEqual(["a", "b"]);
+    expect(uganda?.valueCount).toBe(2);
+    expect(uganda?.sum).toBe(14);
+    expect(uganda?.max).toBe(10);
+  });
+});
+
+describe("getAggregateValue", () => {
+  it("applies each method", () => {
+    const uganda = statsByRegion.get("UG");
+    expect(getAggregateValue(uganda, "count")).toBe(4);
+    expect(getAggregateValue(uganda, "distinctCount")).toBe(2);
+    expect(getAggregateValue(uganda, "sum")).toBe(14);
+    expect(getAggregateValue(uganda, "mean")).toBe(7);
+    expect(getAggregateValue(uganda, "max")).toBe(10);
+  });
+
+  it("has no value-based result for a region without values", () => {
+    const kenya = statsByRegion.get("KE");
+    expect(getAggregateValue(kenya, "count")).toBe(1);
+    expect(getAggregateValue(kenya, "sum")).toBeUndefined();
+    expect(getAggregateValue(kenya, "mean")).toBeUndefined();
+    expect(getAggregateValue(kenya, "max")).toBeUndefined();
+  });
+
+  it("keeps the maximum of negative values", () => {
+    const stats = aggregateByRegion([
+      { region: "UG", value: -5 },
+      { region: "UG", value: -2 },
+    ]).get("UG");
+    expect(getAggregateValue(stats, "max")).toBe(-2);
+  });
+});
+
+describe("aggregation labels", () => {
+  it("names the value by method", () => {
+    expect(getAggregationLabel("count", "Cases")).toBe("Row count");
+    expect(getAggregationLabel("distinctCount", "Cases")).toBe(
+      "Distinct Obs IDs"
+    );
+    expect(getAggregationLabel("sum", "Cases")).toBe("Cases");
+    expect(getAggregationLabel("mean", "Cases")).toBe("Mean of Cases");
+    expect(getAggregationLabel("max", "Cases")).toBe("Max of Cases");
+  });
+
+  it("tells which methods read the Value field", () => {
+    expect(usesValueField("count")).toBe(false);
+    expect(usesValueField("distinctCount")).toBe(false);
+    expect(usesValueField("mean")).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { BubbleSizeOptions, getBubbleRadius } from "../src/bubbles";
+
+const sqrt: BubbleSizeOptions = {
+  scaling: "sqrt",
+  minRadius: 4,
+  maxRadius: 24,
+};
+const linear: BubbleSizeOptions = { ...sqrt, scaling: "linear" };
+
+describe("getBubbleRadius", () => {
+  it("gives the largest value the maximum radius", () => {
+    expect(getBubbleRadius(50, 50, sqrt)).toBe(24);
+    expect(getBubbleRadius(50, 50, linear)).toBe(24);
+  });
+
+  it("makes the area proportional to the value with square-root scaling", () => {
+    // A quarter of the largest value is half way along the radius range
+    expect(getBubbleRadius(25, 100, sqrt)).toBe(14);
+  });
+
+  it("scales the radius with the value with linear scaling", () => {
+    expect(getBubbleRadius(25, 100, linear)).toBe(9);
+  });
+
+  it("gives values at or below zero the minimum radius", () => {
+    expect(getBubbleRadius(0, 100, sqrt)).toBe(4);
+    expect(getBubbleRadius(-10, 100, sqrt)).toBe(4);
+    expect(getBubbleRadius(NaN, 100, sqrt)).toBe(4);
+    expect(getBubbleRadius(10, 0, sqrt)).toBe(4);
+  });
+
+  it("keeps the radii within the configured range", () => {
+    expect(getBubbleRadius(200, 100, sqrt)).toBe(24);
+    expect(
+      getBubbleRadius(100, 100, {
+        scaling: "sqrt",
+        minRadius: 10,
+        maxRadius: 5,
+      })
+    ).toBe(10);
+    expect(
+      getBubbleRadius(0, 100, { scaling: "sqrt", minRadius: -3, maxRadius: 5 })
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeClassBreaks,
+  getClassIndex,
+  parseManualBreaks,
+} from "../src/classification";
+
+describe("computeClassBreaks", () => {
+  it("returns no breaks without finite values", () => {
+    expect(computeClassBreaks([NaN, Infinity], "quantile", 3)).toEqual([]);
+  });
+
+  it("splits the range evenly for equal intervals", () => {
+    expect(computeClassBreaks([0, 1, 4, 6, 8, 10], "equalInterval", 5)).toEqual(
+      [0, 2, 4, 6, 8, 10]
+    );
+  });
+
+  it("keeps a Jenks class that holds only the minimum", () => {
+    expect(computeClassBreaks([1, 5, 5, 10, 11, 12], "jenks", 3)).toEqual([
+      1, 1, 5, 12,
+    ]);
+  });
+
+  it("finds the natural gaps with Jenks", () => {
+    expect(
+      computeClassBreaks([1, 2, 3, 20, 21, 22, 50, 51], "jenks", 3)
+    ).toEqual([1, 3, 22, 51]);
+  });
+
+  it("keeps a quantile class for repeated lowest values", () => {
+    const breaks = computeClassBreaks([0, 0, 0, 0, 6, 9], "quantile", 3);
+    expect(breaks.slice(0, 2)).toEqual([0, 0]);
+    expect(breaks[2]).toBeCloseTo(2);
+    expect(breaks[3]).toBe(9);
+  });
+
+  it("places standard deviation breaks around the mean", () => {
+    expect(computeClassBreaks([2, 4, 6, 8], "standardDeviation", 2)).toEqual([
+      2, 5, 8,
+    ]);
+  });
+
+  it("centres the middle class on the mean for an odd class count", () => {
+    const sd = Math.sqrt(20 / 3);
+    const breaks = computeClassBreaks([2, 4, 6, 8], "standardDeviation", 3);
+    expect(breaks).toHaveLength(4);
+    expect(breaks[1]).toBeCloseTo(5 - sd / 2);
+    expect(breaks[2]).toBeCloseTo(5 + sd / 2);
+  });
+
+  it("drops manual breaks outside the data and sorts the rest", () => {
+    expect(
+      computeClassBreaks([5, 50, 500], "manual", 5, [1000, 100, 10, 10, 1])
+    ).toEqual([5, 10, 100, 500]);
+  });
+
+  it("never makes more classes than values", () => {
+    expect(computeClassBreaks([1, 2], "equalInterval", 5)).toEqual([1, 1.5, 2]);
+  });
+});
+
+describe("getClassIndex", () => {
+  it("puts the minimum in the first class and break values in the lower class", () => {
+    const breaks = [0, 10, 20];
+    expect(getClassIndex(0, breaks)).toBe(0);
+    expect(getClassIndex(10, breaks)).toBe(0);
+    expect(getClassIndex(10.5, breaks)).toBe(1);
+    expect(getClassIndex(20, breaks)).toBe(1);
+  });
+
+  it("gives the minimum its own class when the first break repeats", () => {
+    const breaks = [1, 1, 5, 12];
+    expect(getClassIndex(1, breaks)).toBe(0);
+    expect(getClassIndex(5, breaks)).toBe(1);
+    expect(getClassIndex(10, breaks)).toBe(2);
+  });
+
+  it("returns -1 outside the breaks", () => {
+    expect(getClassIndex(-1, [0, 10])).toBe(-1);
+    expect(getClassIndex(11, [0, 10])).toBe(-1);
+    expect(getClassIndex(5, [0])).toBe(-1);
+  });
+});
+
+describe("parseManualBreaks", () => {
+  it("accepts commas, semicolons, bars and spaces", () => {
+    expect(parseManualBreaks("10, 50; 100|200 x")).toEqual([10, 50, 100, 200]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAdminCodeCoverage,
+  getAdminCodeCoverageSection,
+  getUnmatchedRowShare,
+  indexFeaturesByJoinValue,
+} from "../src/coverage";
+
+const normalize = (adminCode: string) => adminCode.trim().toUpperCase();
+
+// Two features share "KE", one has both an ISO and a P-code
+const featureIndex = indexFeaturesByJoinValue(
+  [{ codes: ["UG", "UG01"] }, { codes: ["KE"] }, { codes: ["KE", "KE"] }],
+  (feature) => feature.codes
+);
+
+const countMatchingFeatures = (adminCode: string) =>
+  featureIndex.get(normalize(adminCode)) || 0;
+
+describe("indexFeaturesByJoinValue", () => {
+  it("counts a feature once per distinct join value", () => {
+    expect(Object.fromEntries(featureIndex)).toEqual({
+      UG: 1,
+      UG01: 1,
+      KE: 2,
+    });
+  });
+});
+
+describe("buildAdminCodeCoverage", () => {
+  const coverage = buildAdminCodeCoverage(
+    ["ug", "UG ", "KE", "TZ", "ug01", "tz", "tz"],
+    normalize,
+    countMatchingFeatures
+  );
+
+  it("groups rows by normalised code, unmatched codes first", () => {
+    expect(coverage.entries).toEqual([
+      { adminCode: "TZ", status: "unmatched", rowCount: 3, featureCount: 0 },
+      { adminCode: "KE", status: "ambiguous", rowCount: 1, featureCount: 2 },
+      { adminCode: "ug", status: "matched", rowCount: 2, featureCount: 1 },
+      { adminCode: "ug01", status: "matched", rowCount: 1, featureCount: 1 },
+    ]);
+    expect(coverage.rowCount).toBe(7);
+    expect(coverage.unmatchedRowCount).toBe(3);
+  });
+
+  it("gives the unmatched share of rows as a percentage", () => {
+    expect(getUnmatchedRowShare(coverage)).toBeCloseTo((3 / 7) * 100);
+    expect(
+      getUnmatchedRowShare(buildAdminCodeCoverage([], normalize, () => 0))
+    ).toBe(0);
+  });
+});
+
+describe("getAdminCodeCoverageSection", () => {
+  it("warns when the unmatched share passes the threshold", () => {
+    const coverage = buildAdminCodeCoverage(
+      ["UG", "TZ"],
+      normalize,
+      countMatchingFeatures
+    );
+    const status = (threshold: number) =>
+      getAdminCodeCoverageSection(coverage, threshold).rows.find(
+        (row) => row.label === "Unmatched rows"
+      )?.status;
+    expect(status(10)).toBe("warning");
+    expect(status(50)).toBe("ok");
+  });
+
+  it("is an error when no code matches", () => {
+    const section = getAdminCodeCoverageSection(
+      buildAdminCodeCoverage(["TZ", "RW"], normalize, countMatchingFeatures),
+      10
+    );
+    const unmatched = section.rows.find(
+      (row) => row.label === "Unmatched codes"
+    );
+    expect(unmatched).toEqual({
+      label: "Unmatched codes",
+      value: "2 (2 rows)",
+      status: "error",
+    });
+  });
+
+  it("lists every code with its status", () => {
+    const section = getAdminCodeCoverageSection(
+      buildAdminCodeCoverage(["KE", "UG"], normalize, countMatchingFeatures),
+      10
+    );
+    expect(section.notes).toEqual([
+      "KE: ambiguous, 2 features, 1 rows",
+      "UG: matched, 1 rows",
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import { FeatureCollection } from "geojson";
+import { describe, expect, it } from "vitest";
+import {
+  getFeatureQualityErrors,
+  getFeatureQualitySection,
+  hasDrawableFeatures,
+  summarizeFeatureQuality,
+  validateFeatureCollection,
+} from "../src/featureQuality";
+
+const POLYGON = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+  ],
+};
+
+function collection(...features: any[]): FeatureCollection {
+  return { type: "FeatureCollection", features };
+}
+
+function feature(code: string | undefined, geometry: any = POLYGON): any {
+  return { type: "Feature", properties: { code }, geometry };
+}
+
+// Join on the "code" property, normalised to upper case like the visual does
+const getJoinValues = (item: any) =>
+  item.properties.code ? [String(item.properties.code).toUpperCase()] : [];
+
+describe("validateFeatureCollection", () => {
+  it("counts geometry types, missing keys and duplicate keys", () => {
+    const report = validateFeatureCollection(
+      collection(
+        feature("a"),
+        feature("A"),
+        feature("b", { type: "Point", coordinates: [1, 1] }),
+        feature(undefined)
+      ),
+      getJoinValues
+    );
+    expect(report.featureCount).toBe(4);
+    expect(report.geometryTypes).toEqual({ Polygon: 3, Point: 1 });
+    expect(report.missingJoinKey).toBe(1);
+    expect(report.duplicateKeys).toEqual([{ key: "A", count: 2 }]);
+  });
+
+  it("keeps null geometries apart from invalid ones", () => {
+    const report = validateFeatureCollection(
+      collection(
+        feature("a", null),
+        feature("b", { type: "Point", coordinates: [500, 0] })
+      ),
+      getJoinValues
+    );
+    expect(report.nullGeometries).toBe(1);
+    expect(report.invalidGeometries).toEqual([
+      { index: 1, problem: "point has invalid coordinates" },
+    ]);
+    expect(hasDrawableFeatures(report)).toBe(false);
+  });
+});
+
+describe("getFeatureQualityErrors", () => {
+  it("reports a file without features", () => {
+    const report = validateFeatureCollection(collection(), getJoinValues);
+    expect(getFeatureQualityErrors(report)).toEqual([
+      "The file has no features",
+    ]);
+  });
+
+  it("reports files that cannot be drawn or joined", () => {
+    const report = validateFeatureCollection(
+      collection(feature(undefined, null)),
+      getJoinValues
+    );
+    expect(getFeatureQualityErrors(report)).toEqual([
+      "No feature has a valid geometry",
+      "No feature has the join property or an alternate join key",
+    ]);
+  });
+
+  it("has no errors for a usable file", () => {
+    const report = validateFeatureCollection(
+      collection(feature("a"), feature(undefined)),
+      getJoinValues
+    );
+    expect(getFeatureQualityErrors(report)).toEqual([]);
+  });
+});
+
+describe("feature quality summary", () => {
+  const report = validateFeatureCollection(
+    collection(feature("a"), feature("a"), feature(undefined, null)),
+    getJoinValues
+  );
+
+  it("summarises the report in one line", () => {
+    expect(summarizeFeatureQuality(report)).toBe(
+      "3 features, 1 missing the join key, 1 duplicate keys, 1 with null or invalid geometry"
+    );
+  });
+
+  it("flags each problem in the diagnostics section", () => {
+    const section = getFeatureQualitySection(report, ["code"]);
+    const statuses = Object.fromEntries(
+      section.rows.map((row) => [row.label, row.status])
+    );
+    expect(statuses).toEqual({
+      Features: "ok",
+      "Geometry types": undefined,
+      "Missing join key (code)": "warning",
+      "Duplicate keys": "warning",
+      "Null geometries": "warning",
+      "Invalid geometries": "ok",
+    });
+    expect(section.notes).toEqual(['Key "A" is used by 2 features']);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  getGeometryCentroid,
+  getGeometryProblem,
+  parseGeometryText,
+} from "../src/geometry";
+
+const SQUARE = [
+  [0, 0],
+  [4, 0],
+  [4, 4],
+  [0, 4],
+  [0, 0],
+];
+
+function parseCoordinates(text: string): any {
+  return (parseGeometryText(text) as any)?.coordinates;
+}
+
+describe("parseGeometryText", () => {
+  it("reads WKT points, lines and polygons", () => {
+    expect(parseGeometryText("POINT (30 10)")).toEqual({
+      type: "Point",
+      coordinates: [30, 10],
+    });
+    expect(parseGeometryText("LINESTRING (30 10, 10 30, 40 40)")).toEqual({
+      type: "LineString",
+      coordinates: [
+        [30, 10],
+        [10, 30],
+        [40, 40],
+      ],
+    });
+    expect(parseCoordinates("POLYGON ((0 0, 4 0, 4 4, 0 4, 0 0))")).toEqual([
+      SQUARE,
+    ]);
+  });
+
+  it("accepts signs and numbers without integer or fraction digits", () => {
+    expect(parseGeometryText("POINT (+1 -.5)")).toEqual({
+      type: "Point",
+      coordinates: [1, -0.5],
+    });
+    expect(parseGeometryText("POINT (5. 1e2)")).toEqual({
+      type: "Point",
+      coordinates: [5, 100],
+    });
+  });
+
+  it("drops Z and M values and an EWKT SRID prefix", () => {
+    expect(parseGeometryText("SRID=4326;POINT Z (1 2 3)")).toEqual({
+      type: "Point",
+      coordinates: [1, 2],
+    });
+    expect(parseCoordinates("POINT ZM (1 2 3 4)")).toEqual([1, 2]);
+  });
+
+  it("reads both MULTIPOINT forms", () => {
+    const expected = [
+      [10, 40],
+      [40, 30],
+    ];
+    expect(parseCoordinates("MULTIPOINT (10 40, 40 30)")).toEqual(expected);
+    expect(parseCoordinates("MULTIPOINT ((10 40), (40 30))")).toEqual(expected);
+  });
+
+  it("reads GeoJSON geometries and features", () => {
+    const point = { type: "Point", coordinates: [1, 2] };
+    expect(parseGeometryText(JSON.stringify(point))).toEqual(point);
+    expect(
+      parseGeometryText(JSON.stringify({ type: "Feature", geometry: point }))
+    ).toEqual(point);
+  });
+
+  it("rejects empty and malformed values", () => {
+    [null, undefined, "", "NA", "POINT 1 2", "CIRCLE (1 2)", "{oops"].forEach(
+      (value) => expect(parseGeometryText(value)).toBeNull()
+    );
+    expect(parseGeometryText("POLYGON (1 2, 3 4)")).toBeNull();
+    expect(parseGeometryText("POINT (1 . 2)")).toBeNull();
+  });
+});
+
+describe("getGeometryProblem", () => {
+  it("accepts valid geometries", () => {
+    expect(
+      getGeometryProblem({ type: "Polygon", coordinates: [SQUARE] })
+    ).toBeNull();
+    expect(
+      getGeometryProblem({
+        type: "GeometryCollection",
+        geometries: [{ type: "Point", coordinates: [1, 2] }],
+      })
+    ).toBeNull();
+  });
+
+  it("describes what is wrong", () => {
+    expect(getGeometryProblem(null)).toBe("geometry is null");
+    expect(getGeometryProblem({ type: "Circle" })).toBe(
+      'unknown geometry type "Circle"'
+    );
+    expect(getGeometryProblem({ type: "Point", coordinates: [200, 0] })).toBe(
+      "point has invalid coordinates"
+    );
+    expect(
+      getGeometryProblem({ type: "LineString", coordinates: [[0, 0]] })
+    ).toBe("line has fewer than 2 positions");
+    expect(
+      getGeometryProblem({ type: "Polygon", coordinates: [SQUARE.slice(0, 4)] })
+    ).toBe("ring is not closed");
+    expect(getGeometryProblem({ type: "MultiPolygon", coordinates: [] })).toBe(
+      "multipolygon has no polygons"
+    );
+  });
+});
+
+describe("getGeometryCentroid", () => {
+  it("uses the area-weighted centre of a polygon", () => {
+    expect(
+      getGeometryCentroid({ type: "Polygon", coordinates: [SQUARE] })
+    ).toEqual([2, 2]);
+  });
+
+  it("uses the largest polygon of a multipolygon", () => {
+    const island = [
+      [10, 10],
+      [11, 10],
+      [11, 11],
+      [10, 10],
+    ];
+    expect(
+      getGeometryCentroid({
+        type: "MultiPolygon",
+        coordinates: [[island], [SQUARE]],
+      })
+    ).toEqual([2, 2]);
+  });
+
+  it("uses the bounding box centre of points and lines", () => {
+    expect(
+      getGeometryCentroid({
+        type: "LineString",
+        coordinates: [
+          [0, 0],
+          [10, 4],
+        ],
+      })
+    ).toEqual([5, 2]);
+    expect(getGeometryCentroid({ type: "Point", coordinates: [3, 4] })).toEqual(
+      [3, 4]
+    );
+  });
+
+  it("returns null without usable positions", () => {
+    expect(getGeometryCentroid(null)).toBeNull();
+    expect(
+      getGeometryCentroid({ type: "GeometryCollection", geometries: [] })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildHeatmapPoints,
+  getHeatmapGradient,
+  getHeatmapGradientColors,
+  getHeatmapMax,
+} from "../src/heatmap";
+
+describe("buildHeatmapPoints", () => {
+  it("turns observations into [lat, lng, weight] points", () => {
+    expect(
+      buildHeatmapPoints([
+        { latitude: 1, longitude: 32, weight: 1 },
+        { latitude: -1.5, longitude: 36.8, weight: 2.5 },
+      ])
+    ).toEqual([
+      [1, 32, 1],
+      [-1.5, 36.8, 2.5],
+    ]);
+  });
+
+  it("leaves out rows without a position", () => {
+    expect(
+      buildHeatmapPoints([
+        { longitude: 32, weight: 1 },
+        { latitude: NaN, longitude: 32, weight: 1 },
+        { latitude: 1, longitude: Infinity, weight: 1 },
+      ])
+    ).toEqual([]);
+  });
+
+  it("leaves out weights that are missing, zero or negative", () => {
+    expect(
+      buildHeatmapPoints([
+        { latitude: 1, longitude: 32, weight: NaN },
+        { latitude: 1, longitude: 32, weight: 0 },
+        { latitude: 1, longitude: 32, weight: -3 },
+        { latitude: 0, longitude: 0, weight: 4 },
+      ])
+    ).toEqual([[0, 0, 4]]);
+  });
+});
+
+describe("getHeatmapMax", () => {
+  it("uses the configured intensity when there is one", () => {
+    expect(getHeatmapMax([1, 8], 3)).toBe(3);
+  });
+
+  it("falls back to the heaviest weight, or 1 without weights", () => {
+    expect(getHeatmapMax([1, 8, 2], 0)).toBe(8);
+    expect(getHeatmapMax([], 0)).toBe(1);
+  });
+});
+
+describe("getHeatmapGradient", () => {
+  it("keeps the leaflet.heat colours for the classic gradient", () => {
+    expect(
+      getHeatmapGradientColors(getHeatmapGradient("classic", "", ""))
+    ).toEqual(["blue", "cyan", "lime", "yellow", "red"]);
+  });
+
+  it("spreads a sequential ramp over the visible stops", () => {
+    const gradient = getHeatmapGradient("sequential", "#ffffff", "#000000");
+    // Integer keys come first in an object, so the stops are sorted
+    expect(
+      Object.keys(gradient)
+        .map(Number)
+        .sort((a, b) => a - b)
+    ).toEqual([0.4, 0.55, 0.7, 0.85, 1]);
+    const colors = getHeatmapGradientColors(gradient);
+    expect(colors[0]).toBe("rgb(255, 255, 255)");
+    expect(colors[4]).toBe("rgb(0, 0, 0)");
+  });
+});
@@ -0,0 +1,188 @@
+import { IDBFactory } from "fake-indexeddb";
+import {
+  createServer,
+  IncomingHttpHeaders,
+  Server,
+  ServerResponse,
+} from "http";
+import { AddressInfo } from "net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { MapFetch } from "../src/mapLoader";
+
+type MapCacheModule = typeof import("../src/mapCache");
+
+interface MapFileVersion {
+  body: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+let server: Server;
+let baseUrl: string;
+let version: MapFileVersion;
+let requests: IncomingHttpHeaders[];
+let mapCache: MapCacheModule;
+
+const fetchFile: MapFetch = (url, init) => fetch(url, init);
+
+function serveVersion(headers: IncomingHttpHeaders, response: ServerResponse) {
+  const notModified =
+    (version.etag && headers["if-none-match"] === version.etag) ||
+    (version.lastModified &&
+      headers["if-modified-since"] === version.lastModified);
+  if (version.etag) {
+    response.setHeader("ETag", version.etag);
+  }
+  if (version.lastModified) {
+    response.setHeader("Last-Modified", version.lastModified);
+  }
+  response.statusCode = notModified ? 304 : 200;
+  response.end(notModified ? undefined : version.body);
+}
+
+// The module keeps its database connection, so every test loads a fresh copy
+// against a fresh IndexedDB
+async function loadMapCache(): Promise<MapCacheModule> {
+  vi.resetModules();
+  return import("../src/mapCache");
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push(request.headers);
+    serveVersion(request.headers, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/map.json`;
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(async () => {
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  version = { body: '{"v":1}', etag: '"v1"' };
+  requests = [];
+  mapCache = await loadMapCache();
+});
+
+describe("fetchWithCache", () => {
+  it("downloads and stores a file that is not cached", async () => {
+    const options = { fetch: fetchFile, maxAgeMs: 60000, onRefresh: vi.fn() };
+    const first = await mapCache.fetchWithCache(baseUrl, options);
+    expect(await first.text()).toBe('{"v":1}');
+    version = { body: '{"v":2}', etag: '"v2"' };
+    const second = await mapCache.fetchWithCache(baseUrl, options);
+    expect(await second.text()).toBe('{"v":1}');
+    expect(requests).toHaveLength(1);
+    expect(options.onRefresh).not.toHaveBeenCalled();
+  });
+
+  it("does not store failed responses", async () => {
+    const failing: MapFetch = () =>
+      Promise.resolve(new Response("", { status: 500 }));
+    const options = { fetch: failing, maxAgeMs: 60000, onRefresh: vi.fn() };
+    expect((await mapCache.fetchWithCache(baseUrl, options)).status).toBe(500);
+    const retried = await mapCache.fetchWithCache(baseUrl, {
+      ...options,
+      fetch: fetchFile,
+    });
+    expect(await retried.text()).toBe('{"v":1}');
+    expect(requests).toHaveLength(1);
+  });
+
+  it("revalidates a stale entry with its ETag", async () => {
+    const options = { fetch: fetchFile, maxAgeMs: 0, onRefresh: vi.fn() };
+    await mapCache.fetchWithCache(baseUrl, options);
+    const cached = await mapCache.fetchWithCache(baseUrl, options);
+    expect(await cached.text()).toBe('{"v":1}');
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    expect(requests[1]["if-none-match"]).toBe('"v1"');
+    expect(options.onRefresh).not.toHaveBeenCalled();
+  });
+
+  it("revalidates a stale entry with its Last-Modified date", async () => {
+    const lastModified = "Mon, 05 Oct 2026 10:00:00 GMT";
+    version = { body: '{"v":1}', lastModified };
+    const options = { fetch: fetchFile, maxAgeMs: 0, onRefresh: vi.fn() };
+    await mapCache.fetchWithCache(baseUrl, options);
+    await mapCache.fetchWithCache(baseUrl, options);
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    expect(requests[1]["if-modified-since"]).toBe(lastModified);
+    expect(requests[1]["if-none-match"]).toBeUndefined();
+    expect(options.onRefresh).not.toHaveBeenCalled();
+  });
+
+  it("stores a changed file and reports the refresh", async () => {
+    const options = { fetch: fetchFile, maxAgeMs: 0, onRefresh: vi.fn() };
+    await mapCache.fetchWithCache(baseUrl, options);
+    version = { body: '{"v":2}', etag: '"v2"' };
+    const cached = await mapCache.fetchWithCache(baseUrl, options);
+    expect(await cached.text()).toBe('{"v":1}');
+    await vi.waitFor(() => expect(options.onRefresh).toHaveBeenCalledOnce());
+    const refreshed = await mapCache.fetchWithCache(baseUrl, {
+      ...options,
+      maxAgeMs: 60000,
+    });
+    expect(await refreshed.text()).toBe('{"v":2}');
+  });
+
+  it("falls back to a plain request when the conditional one is blocked", async () => {
+    // The class the freshly loaded cache module checks against
+    const { MapLoadError } = await import("../src/mapLoader");
+    const inits: RequestInit[] = [];
+    const noPreflight: MapFetch = (url, init) => {
+      inits.push(init || {});
+      if (init?.headers && "If-None-Match" in init.headers) {
+        return Promise.reject(new MapLoadError("cors", "Blocked"));
+      }
+      return fetchFile(url, init);
+    };
+    const options = { fetch: noPreflight, maxAgeMs: 0, onRefresh: vi.fn() };
+    await mapCache.fetchWithCache(baseUrl, options);
+    await mapCache.fetchWithCache(baseUrl, options);
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    expect(inits).toHaveLength(3);
+    expect(inits[2].headers).toBeUndefined();
+    // The same ETag came back, so nothing changed
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(options.onRefresh).not.toHaveBeenCalled();
+  });
+});
+
+describe("clearMapCache", () => {
+  it("empties the cache so the file is downloaded again", async () => {
+    const options = { fetch: fetchFile, maxAgeMs: 60000, onRefresh: vi.fn() };
+    await mapCache.fetchWithCache(baseUrl, options);
+    await mapCache.clearMapCache();
+    await mapCache.fetchWithCache(baseUrl, options);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe("isMapCacheAvailable", () => {
+  it("is true when IndexedDB opens", async () => {
+    expect(await mapCache.isMapCacheAvailable()).toBe(true);
+  });
+
+  it("is false without IndexedDB, and files are still downloaded", async () => {
+    vi.stubGlobal("indexedDB", undefined);
+    mapCache = await loadMapCache();
+    expect(await mapCache.isMapCacheAvailable()).toBe(false);
+    const options = { fetch: fetchFile, maxAgeMs: 60000, onRefresh: vi.fn() };
+    const response = await mapCache.fetchWithCache(baseUrl, options);
+    expect(await response.text()).toBe('{"v":1}');
+    await mapCache.fetchWithCache(baseUrl, options);
+    expect(requests).toHaveLength(2);
+  });
+});
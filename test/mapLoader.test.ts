@@ -0,0 +1,223 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import {
+  describeMapLoadError,
+  fetchMapFile,
+  MapLoadError,
+  MapLoadSequence,
+  toMapLoadError,
+} from "../src/mapLoader";
+
+type Handler = (request: IncomingMessage, response: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let handler: Handler;
+let hits: number;
+
+const options = { timeoutMs: 200, retries: 2, retryDelayMs: 10 };
+
+async function catchError(promise: Promise<unknown>): Promise<any> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    hits++;
+    handler(request, response);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  hits = 0;
+});
+
+describe("fetchMapFile", () => {
+  it("retries server errors with backoff until one succeeds", async () => {
+    handler = (_, response) => {
+      response.statusCode = hits < 3 ? 503 : 200;
+      response.end("{}");
+    };
+    const started = Date.now();
+    const response = await fetchMapFile(baseUrl, {}, options);
+    expect(await response.text()).toBe("{}");
+    expect(hits).toBe(3);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(30);
+  });
+
+  it("gives up on a status that will not pass", async () => {
+    handler = (_, response) => {
+      response.statusCode = 404;
+      response.end();
+    };
+    const error = await catchError(fetchMapFile(baseUrl, {}, options));
+    expect(error).toBeInstanceOf(MapLoadError);
+    expect(error.kind).toBe("http");
+    expect(error.status).toBe(404);
+    expect(hits).toBe(1);
+  });
+
+  it("reports the attempts once the retries run out", async () => {
+    handler = (_, response) => {
+      response.statusCode = 500;
+      response.end();
+    };
+    const error = await catchError(fetchMapFile(baseUrl, {}, options));
+    expect(error.kind).toBe("http");
+    expect(error.message).toContain("after 3 attempts");
+    expect(hits).toBe(3);
+  });
+
+  it("times out when the headers do not arrive", async () => {
+    handler = () => undefined;
+    const error = await catchError(
+      fetchMapFile(baseUrl, {}, { ...options, retries: 0 })
+    );
+    expect(error.kind).toBe("timeout");
+  });
+
+  it("times out when the body stalls after the headers", async () => {
+    handler = (_, response) => {
+      response.writeHead(200, { "Content-Length": "100" });
+      response.write("{");
+    };
+    const error = await catchError(
+      fetchMapFile(baseUrl, {}, { ...options, retries: 0 })
+    );
+    expect(error.kind).toBe("timeout");
+  });
+
+  it("retries a download that is cut off", async () => {
+    handler = (_, response) => {
+      if (hits === 1) {
+        response.writeHead(200, { "Content-Length": "100" });
+        response.write("{", () => response.destroy());
+        return;
+      }
+      response.end("{}");
+    };
+    const response = await fetchMapFile(baseUrl, {}, options);
+    expect(await response.text()).toBe("{}");
+    expect(hits).toBe(2);
+  });
+
+  it("keeps the status and headers of the response", async () => {
+    handler = (_, response) => {
+      response.writeHead(200, { ETag: '"v1"' });
+      response.end("{}");
+    };
+    const response = await fetchMapFile(baseUrl, {}, options);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe('"v1"');
+  });
+
+  it("reports an unreachable host as a blocked request", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) =>
+      closed.listen(0, "127.0.0.1", resolve)
+    );
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise((resolve) => closed.close(resolve));
+    const error = await catchError(
+      fetchMapFile(`http://127.0.0.1:${port}`, {}, { ...options, retries: 0 })
+    );
+    expect(error.kind).toBe("cors");
+  });
+});
+
+describe("fetchMapFile with an abort signal", () => {
+  it("rejects with the AbortError when the caller aborts", async () => {
+    handler = () => undefined;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    const error = await catchError(
+      fetchMapFile(baseUrl, {}, { ...options, signal: controller.signal })
+    );
+    expect(error.name).toBe("AbortError");
+    expect(toMapLoadError(error)).toBeNull();
+    expect(hits).toBe(1);
+  });
+
+  it("stops waiting between retries when the caller aborts", async () => {
+    handler = (_, response) => {
+      response.statusCode = 503;
+      response.end();
+    };
+    const controller = new AbortController();
+    const promise = fetchMapFile(
+      baseUrl,
+      {},
+      { ...options, retryDelayMs: 10000, signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 50);
+    const error = await catchError(promise);
+    expect(error.name).toBe("AbortError");
+    expect(hits).toBe(1);
+  });
+});
+
+describe("MapLoadSequence", () => {
+  it("aborts and discards a load superseded by a newer one", () => {
+    const sequence = new MapLoadSequence();
+    const first = sequence.start();
+    const second = sequence.start();
+    expect(first.signal.aborted).toBe(true);
+    expect(first.isCurrent()).toBe(false);
+    expect(second.isCurrent()).toBe(true);
+  });
+
+  it("discards the current load when cancelled", () => {
+    const sequence = new MapLoadSequence();
+    const ticket = sequence.start();
+    sequence.cancel();
+    expect(ticket.signal.aborted).toBe(true);
+    expect(ticket.isCurrent()).toBe(false);
+  });
+});
+
+describe("describeMapLoadError", () => {
+  it("treats errors from reading the content as parse errors", () => {
+    const error = toMapLoadError(new SyntaxError("Unexpected token"));
+    expect(error).toBeInstanceOf(MapLoadError);
+    expect(error?.kind).toBe("parse");
+    expect(describeMapLoadError(error as MapLoadError).title).toBe(
+      "The file could not be read"
+    );
+  });
+
+  it("gives tips that depend on the HTTP status", () => {
+    const forbidden = describeMapLoadError(
+      new MapLoadError("http", "HTTP 403", 403)
+    );
+    const missing = describeMapLoadError(
+      new MapLoadError("http", "HTTP 404", 404)
+    );
+    expect(forbidden.title).toBe("The server returned an error");
+    expect(forbidden.tips[0]).toContain("publicly accessible");
+    expect(missing.tips).toContain("Check the URL for typos");
+  });
+
+  it("describes each kind of failure", () => {
+    const titles = (["cors", "timeout", "invalid"] as const).map(
+      (kind) => describeMapLoadError(new MapLoadError(kind, "message")).title
+    );
+    expect(titles).toEqual([
+      "The request was blocked",
+      "The request timed out",
+      "The file has no usable features",
+    ]);
+  });
+});
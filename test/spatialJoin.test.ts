@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { PolygonIndex } from "../src/spatialJoin";
+
+function square(
+  name: string,
+  minLng: number,
+  minLat: number,
+  size: number
+): any {
+  return {
+    type: "Feature",
+    properties: { name },
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [
+          [minLng, minLat],
+          [minLng + size, minLat],
+          [minLng + size, minLat + size],
+          [minLng, minLat + size],
+          [minLng, minLat],
+        ],
+      ],
+    },
+  };
+}
+
+function findName(
+  index: PolygonIndex,
+  lng: number,
+  lat: number
+): string | null {
+  return index.findFeature(lng, lat)?.properties.name ?? null;
+}
+
+describe("PolygonIndex.findFeature", () => {
+  it("finds the polygon containing a point", () => {
+    const index = new PolygonIndex([
+      square("west", 0, 0, 10),
+      square("east", 20, 0, 10),
+    ]);
+    expect(findName(index, 5, 5)).toBe("west");
+    expect(findName(index, 25, 5)).toBe("east");
+    expect(findName(index, 15, 5)).toBeNull();
+    expect(findName(index, -50, 80)).toBeNull();
+  });
+
+  it("leaves out points inside a hole", () => {
+    const ring = square("ring", 0, 0, 10);
+    ring.geometry.coordinates.push([
+      [4, 4],
+      [6, 4],
+      [6, 6],
+      [4, 6],
+      [4, 4],
+    ]);
+    const index = new PolygonIndex([ring]);
+    expect(findName(index, 2, 2)).toBe("ring");
+    expect(findName(index, 5, 5)).toBeNull();
+  });
+
+  it("searches every part of a multipolygon", () => {
+    const islands = {
+      type: "Feature",
+      properties: { name: "islands" },
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: [
+          square("", 0, 0, 1).geometry.coordinates,
+          square("", 50, 50, 1).geometry.coordinates,
+        ],
+      },
+    };
+    const index = new PolygonIndex([islands]);
+    expect(findName(index, 50.5, 50.5)).toBe("islands");
+  });
+
+  it("keeps the first feature when large and small polygons overlap", () => {
+    // "continent" covers most of the grid, so it is not entered cell by cell
+    const index = new PolygonIndex([
+      square("region", 10, 10, 1),
+      square("continent", 0, 0, 100),
+      square("city", 50, 50, 1),
+    ]);
+    expect(findName(index, 10.5, 10.5)).toBe("region");
+    expect(findName(index, 50.5, 50.5)).toBe("continent");
+    expect(findName(index, 80, 20)).toBe("continent");
+  });
+
+  it("ignores features without polygons", () => {
+    const index = new PolygonIndex([
+      { type: "Feature", geometry: { type: "Point", coordinates: [1, 1] } },
+      { type: "Feature", geometry: null },
+    ]);
+    expect(findName(index, 1, 1)).toBeNull();
+  });
+});